@@ -9,14 +9,18 @@ import {
 import {ApiSelectorComponent} from './components/api-components/api-selector/api-selector.component';
 import {FileTranslationComponent} from './components/file-components/file-translation/file-translation.component';
 import {FolderTranslationComponent} from './components/folder-components/folder-translation/folder-translation.component';
+import {TranslationMigrationComponent} from './components/file-components/translation-migration/translation-migration.component';
 import {TranslateModule, TranslateService} from '@ngx-translate/core';
 import {Title} from '@angular/platform-browser';
 import {ApiDetails} from './models/api-details.model';
+import {TranslationOptions} from './models/translation-options.model';
+import {TranslatedFile} from './models/translated-file.model';
+import {TextFileService} from './services/text-file.service';
 
 @Component({
 	selector: 'app-root',
 	standalone: true,
- imports: [RouterOutlet, CommonModule, FileUploadComponent, FileViewerComponent, LanguageSelectorComponent, ApiSelectorComponent, FileTranslationComponent, FolderTranslationComponent, TranslateModule],
+ imports: [RouterOutlet, CommonModule, FileUploadComponent, FileViewerComponent, LanguageSelectorComponent, ApiSelectorComponent, FileTranslationComponent, FolderTranslationComponent, TranslationMigrationComponent, TranslateModule],
 	templateUrl: './app.component.html',
 	styleUrl: './app.component.scss'
 })
@@ -24,14 +28,20 @@ export class AppComponent implements OnInit {
 	title = 'renpy-translation';
 	fileContent: string | null = null;
 	fileName: string = '';
+	// Output of the last translation of the file, compared in the viewer with the file it was written into
+	translatedFile: TranslatedFile | null = null;
 	selectedApi: string = '';
 	apiKey: string = '';
 	targetLanguage: string = '';
+	translationOptions: TranslationOptions = {};
+	// Monthly character limit set by the user, the usage is fetched again when it changes
+	characterLimit: number = 0;
 	folderFiles: File[] = [];
 
 constructor(
 		private readonly translateService: TranslateService,
-		private readonly titleService: Title
+		private readonly titleService: Title,
+		private readonly textFileService: TextFileService
 	) {
 		this.translateService.setDefaultLang('en');
 		this.translateService.use('en');
@@ -58,9 +68,10 @@ constructor(
 		this.folderFiles = [];
 
 		this.fileName = file.name;
+		this.translatedFile = null;
 
 		try {
-			this.fileContent = await file.text();
+			this.fileContent = await this.textFileService.readText(file);
 		} catch (error) {
 			console.error('Error reading file', error);
 			this.translateService.get('ERROR_READING_FILE').subscribe((errorMsg: string) => {
@@ -73,6 +84,8 @@ constructor(
 		this.selectedApi = apiSettings.api;
 		this.apiKey = apiSettings?.key ?? '';
 		this.targetLanguage = apiSettings?.language ?? this.translateService.getDefaultLang();
+		this.translationOptions = apiSettings?.options ?? {};
+		this.characterLimit = apiSettings?.characterLimit ?? 0;
 
 		console.log('API Settings:', apiSettings);
 		// We don't automatically translate when API settings change
@@ -96,5 +109,6 @@ async handleFolderSelected(files: File[]): Promise<void> {
 		// Clear single-file context
 		this.fileContent = null;
 		this.fileName = '';
+		this.translatedFile = null;
 	}
 }
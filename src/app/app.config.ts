@@ -5,6 +5,13 @@ import {TranslateLoader, TranslateModule} from '@ngx-translate/core';
 import {TranslateHttpLoader} from '@ngx-translate/http-loader';
 
 import {routes} from './app.routes';
+import {TRANSLATION_PROVIDERS} from './providers/translation-providers.token';
+import {DeepLFreeProvider} from './providers/deepl-free.provider';
+import {DeepLProProvider} from './providers/deepl-pro.provider';
+import {GoogleFreeProvider} from './providers/google-free.provider';
+import {GoogleCloudProvider} from './providers/google-cloud.provider';
+import {LibreTranslateProvider} from './providers/libretranslate.provider';
+import {LlmProvider} from './providers/llm.provider';
 
 // AoT requires an exported function for factories
 export function HttpLoaderFactory(http: HttpClient) {
@@ -16,6 +23,13 @@ export const appConfig: ApplicationConfig = {
 		provideZoneChangeDetection({eventCoalescing: true}),
 		provideRouter(routes),
 		provideHttpClient(),
+		// Translation APIs, in the order of the API selector
+		{provide: TRANSLATION_PROVIDERS, useExisting: DeepLFreeProvider, multi: true},
+		{provide: TRANSLATION_PROVIDERS, useExisting: DeepLProProvider, multi: true},
+		{provide: TRANSLATION_PROVIDERS, useExisting: GoogleFreeProvider, multi: true},
+		{provide: TRANSLATION_PROVIDERS, useExisting: GoogleCloudProvider, multi: true},
+		{provide: TRANSLATION_PROVIDERS, useExisting: LibreTranslateProvider, multi: true},
+		{provide: TRANSLATION_PROVIDERS, useExisting: LlmProvider, multi: true},
 		...(TranslateModule.forRoot({
 			loader: {
 				provide: TranslateLoader,
@@ -8,8 +8,17 @@ import {of, Subscription} from 'rxjs';
 import {LanguageLocalizationService} from '../../../services/language-localization.service';
 import {SupportedLanguage} from '../../../models/supported-language.model';
 import {ApiDetails} from '../../../models/api-details.model';
+import {ProviderAuth} from '../../../models/translation-provider.model';
+import {DeepLGlossary} from '../../../models/deepl-glossary.model';
+import {Formality, SpeakerFormality} from '../../../models/formality.model';
+import {TranslationOptions} from '../../../models/translation-options.model';
+import {DeepLGlossaryService} from '../../../services/deepl-glossary.service';
+import {DEEPL_CONTEXT_WINDOW, DEEPL_MAX_CONTEXT_WINDOW} from '../../../constants/api.constants';
 import {ApiSelectionComponent} from '../api-selection/api-selection.component';
 import {ApiKeyInputComponent} from '../api-key-input/api-key-input.component';
+import {GlossaryManagerComponent} from '../glossary-manager/glossary-manager.component';
+import {FormalitySettingsComponent} from '../formality-settings/formality-settings.component';
+import {LlmSettingsComponent} from '../llm-settings/llm-settings.component';
 import {LanguageSelectionComponent} from '../../language-components/language-selection/language-selection.component';
 
 @Component({
@@ -21,6 +30,9 @@ import {LanguageSelectionComponent} from '../../language-components/language-sel
 		TranslateModule,
 		ApiSelectionComponent,
 		ApiKeyInputComponent,
+		GlossaryManagerComponent,
+		FormalitySettingsComponent,
+		LlmSettingsComponent,
 		LanguageSelectionComponent
 	],
 	templateUrl: './api-selector.component.html',
@@ -28,13 +40,27 @@ import {LanguageSelectionComponent} from '../../language-components/language-sel
 })
 export class ApiSelectorComponent implements OnInit, OnDestroy {
 	apis: ApiDetails[] = [];
-	selectedApi: string = 'deepl-free';
+	selectedApi: string = '';
 	apiKey: string = '';
 	availableLanguages: SupportedLanguage[] = [];
 	selectedLanguage: string = '';
+	// Languages the texts may be written in, 'auto' to let the API detect it
+	sourceLanguages: SupportedLanguage[] = [];
+	selectedSourceLanguage: string = 'auto';
 	currentPageLanguage: string = '';
 	isLoading: boolean = false;
 	errorMessage: string = '';
+	selectedGlossary: DeepLGlossary | null = null;
+	formality: Formality = 'default';
+	speakerFormalities: SpeakerFormality[] = [];
+	contextWindow: number = DEEPL_CONTEXT_WINDOW;
+	// Monthly character limit of the providers reporting no quota, 0 for none
+	characterLimit: number = 0;
+	// Server of the self-hosted providers
+	baseUrl: string = '';
+	readonly maxContextWindow = DEEPL_MAX_CONTEXT_WINDOW;
+	// Key of the last emitted settings, so that glossaries are not loaded on every keystroke
+	submittedApiKey: string = '';
 	@Output() apiSelected = new EventEmitter<ApiDetails>();
 	private langChangeSubscription: Subscription | null = null;
 	private apiKeyTimeout: any;
@@ -42,15 +68,101 @@ export class ApiSelectorComponent implements OnInit, OnDestroy {
 	constructor(
 		private readonly translateService: TranslateService,
 		private readonly translationApiService: TranslationApiService,
+		private readonly deepLGlossaryService: DeepLGlossaryService,
 		public readonly languageLocalizationService: LanguageLocalizationService
 	) {
 	}
 
+	/**
+	 * List the registered translation providers
+	 */
 	initializeApis(): void {
-		this.apis = [
-			{api: 'deepl-free', name: `DeepL (${this.translateService.instant('FREE')})`},
-			{api: 'google-free', name: `Google Translate (${this.translateService.instant('FREE')})`},
-		];
+		this.apis = this.translationApiService.getProviders().map(provider => ({
+			api: provider.id,
+			name: provider.planKey ? `${provider.name} (${this.translateService.instant(provider.planKey)})` : provider.name
+		}));
+		this.selectedApi ||= this.apis[0]?.api ?? '';
+	}
+
+	/**
+	 * Get whether the selected provider needs an API key
+	 * @returns The authentication requirement, 'none' when no provider is selected
+	 */
+	get auth(): ProviderAuth {
+		return this.translationApiService.getProvider(this.selectedApi)?.auth ?? 'none';
+	}
+
+	/**
+	 * Check if glossaries can be managed for the selected provider
+	 * @returns True if the provider supports glossaries and a key is entered
+	 */
+	get showGlossaries(): boolean {
+		return !!this.submittedApiKey && !!this.translationApiService.getProvider(this.selectedApi)?.capabilities.glossaries;
+	}
+
+	/**
+	 * Check if the formality can be chosen for the selected provider
+	 * @returns True if the provider supports formality and a key is entered
+	 */
+	get showFormality(): boolean {
+		return !!this.submittedApiKey && !!this.translationApiService.getProvider(this.selectedApi)?.capabilities.formality;
+	}
+
+	/**
+	 * Check if surrounding dialogue can be sent with the lines for the selected provider
+	 * @returns True if the provider supports context and a key is entered when one is required
+	 */
+	get showContextWindow(): boolean {
+		return (this.auth !== 'required' || !!this.submittedApiKey) && !!this.translationApiService.getProvider(this.selectedApi)?.capabilities.context;
+	}
+
+	/**
+	 * Check if the monthly character limit is set by the user for the selected provider
+	 * @returns True if the provider reports no quota
+	 */
+	get showCharacterLimit(): boolean {
+		return !!this.translationApiService.getProvider(this.selectedApi)?.capabilities.billingLimit;
+	}
+
+	/**
+	 * Check if the server of the selected provider is chosen by the user
+	 * @returns True if the provider runs on a server chosen by the user
+	 */
+	get showBaseUrl(): boolean {
+		return !!this.translationApiService.getProvider(this.selectedApi)?.capabilities.serverUrl;
+	}
+
+	/**
+	 * Check if the model and the prompt templates are set by the user for the selected provider
+	 * @returns True if the provider prompts a language model
+	 */
+	get showPromptTemplates(): boolean {
+		return !!this.translationApiService.getProvider(this.selectedApi)?.capabilities.promptTemplates;
+	}
+
+	/**
+	 * Check if the target language has formal and informal registers
+	 * @returns True if the API reports formality support for the language
+	 */
+	get formalitySupported(): boolean {
+		const language = this.targetLanguage.toLowerCase();
+		return !!this.availableLanguages.find(lang => lang.code === language)?.supportsFormality;
+	}
+
+	/**
+	 * Get the source language of the translations
+	 * @returns The selected language code, empty when the API detects it
+	 */
+	get sourceLanguage(): string {
+		return this.selectedSourceLanguage === 'auto' ? '' : this.selectedSourceLanguage;
+	}
+
+	/**
+	 * Get the target language of the translations
+	 * @returns The selected language code, or the page language for the default option
+	 */
+	get targetLanguage(): string {
+		return this.selectedLanguage === 'default' ? this.currentPageLanguage : this.selectedLanguage;
 	}
 
 	ngOnInit(): void {
@@ -89,6 +201,10 @@ export class ApiSelectorComponent implements OnInit, OnDestroy {
 		this.errorMessage = '';
 		this.isLoading = true;
 		this.availableLanguages = [];
+		this.characterLimit = this.translationApiService.getCharacterLimit(this.selectedApi);
+		this.baseUrl = this.translationApiService.getBaseUrl(this.selectedApi);
+		this.sourceLanguages = [];
+		this.selectedSourceLanguage = 'auto';
 
 		this.availableLanguages.push({
 			code: 'default',
@@ -97,10 +213,10 @@ export class ApiSelectorComponent implements OnInit, OnDestroy {
 
 		this.selectedLanguage = 'default';
 
-		// Special case for Google Translate (Free) which doesn't require an API key
-		if (this.selectedApi === 'google-free') {
+		// Providers that can be used without an API key list their languages right away
+		if (this.auth !== 'required') {
 			this.fetchLanguages(this.selectedApi);
-			// Apply settings immediately for Google Free
+			// Apply settings immediately
 			this.onSubmit();
 			return;
 		}
@@ -114,12 +230,7 @@ export class ApiSelectorComponent implements OnInit, OnDestroy {
 			return;
 		}
 
-		if (['deepl-free'].includes(this.selectedApi)) {
-			this.fetchLanguages(this.selectedApi);
-		} else {
-			this.isLoading = false;
-			this.errorMessage = 'Unknown API selected';
-		}
+		this.fetchLanguages(this.selectedApi);
 	}
 
 	onApiKeyChange(newApiKey?: string): void {
@@ -137,8 +248,8 @@ export class ApiSelectorComponent implements OnInit, OnDestroy {
 				this.onApiChange();
 			} else {
 				// If API key is empty, reset available languages to just the default option
-				// for DeepL API which requires a key
-				if (this.selectedApi === 'deepl-free') {
+				// for APIs which require a key
+				if (this.auth === 'required') {
 					this.availableLanguages = [];
 					// Add only the default language option
 					this.availableLanguages.push({
@@ -146,6 +257,8 @@ export class ApiSelectorComponent implements OnInit, OnDestroy {
 						name: `${this.translateService.instant('DEFAULT')} (${this.languageLocalizationService.getLanguageName(this.currentPageLanguage)})`
 					});
 					this.selectedLanguage = 'default';
+					this.sourceLanguages = [];
+					this.selectedSourceLanguage = 'auto';
 				}
 
 				// Call onSubmit to notify parent component
@@ -170,10 +283,11 @@ export class ApiSelectorComponent implements OnInit, OnDestroy {
 		// to ensure the parent component is notified when the API key is erased
 		// This allows the file-translation component to update its state accordingly
 
-		const language = this.selectedLanguage === 'default' ? this.currentPageLanguage : this.selectedLanguage;
+		const language = this.targetLanguage;
 
-		// For Google Translate (Free), we don't need an API key
-		const apiKey = this.selectedApi === 'google-free' ? '' : this.apiKey;
+		// Providers without authentication never receive the key
+		const apiKey = this.auth === 'none' ? '' : this.apiKey;
+		this.submittedApiKey = apiKey;
 
 		const selectedApiObj = this.apis.find(api => api.api === this.selectedApi);
 
@@ -182,33 +296,99 @@ export class ApiSelectorComponent implements OnInit, OnDestroy {
 			api: this.selectedApi,
 			key: apiKey,
 			name: selectedApiObj?.name ?? this.selectedApi,
-			language
+			language,
+			options: this.getTranslationOptions(language),
+			characterLimit: this.showCharacterLimit ? this.characterLimit : undefined
 		});
 	}
 
+	onSourceLanguageChange(language: string): void {
+		this.selectedSourceLanguage = language;
+		this.onSubmit();
+	}
+
+	onGlossaryChange(glossary: DeepLGlossary | null): void {
+		this.selectedGlossary = glossary;
+		this.onSubmit();
+	}
+
+	onFormalityChange(formality: Formality): void {
+		this.formality = formality;
+		this.onSubmit();
+	}
+
+	onSpeakerFormalitiesChange(speakerFormalities: SpeakerFormality[]): void {
+		this.speakerFormalities = speakerFormalities;
+		this.onSubmit();
+	}
+
+	onContextWindowChange(value: number | null): void {
+		this.contextWindow = Math.min(Math.max(Math.floor(value ?? 0), 0), DEEPL_MAX_CONTEXT_WINDOW);
+		this.onSubmit();
+	}
+
+	onBaseUrlChange(url: string): void {
+		this.translationApiService.setBaseUrl(this.selectedApi, url);
+		// The languages are those of the new server
+		this.onApiChange();
+	}
+
+	onCharacterLimitChange(value: number | null): void {
+		this.characterLimit = Math.max(Math.floor(value ?? 0), 0);
+		this.translationApiService.setCharacterLimit(this.selectedApi, this.characterLimit);
+		this.onSubmit();
+	}
+
+	/**
+	 * Build the settings of the translations on top of the target language
+	 * @param language The target language code
+	 * @returns The source language unless detected, the glossary of the selected provider if it matches both languages,
+	 * the formality if the language supports it and the context window
+	 */
+	private getTranslationOptions(language: string): TranslationOptions {
+		const options: TranslationOptions = {};
+
+		if (this.sourceLanguage) {
+			options.sourceLang = this.sourceLanguage;
+		}
+
+		// With a detected source language, the texts are assumed to be in the language of the glossary
+		const glossary = this.selectedGlossary;
+		if (this.showGlossaries && glossary && this.deepLGlossaryService.isForTargetLanguage(glossary, language)
+			&& (!this.sourceLanguage || this.deepLGlossaryService.isForSourceLanguage(glossary, this.sourceLanguage))) {
+			options.glossaryId = glossary.glossary_id;
+			options.sourceLang = glossary.source_lang;
+		}
+
+		if (this.showFormality && this.formalitySupported) {
+			options.formality = this.formality;
+			options.speakerFormalities = this.speakerFormalities
+				.map(setting => ({...setting, speaker: setting.speaker.trim()}))
+				.filter(setting => setting.speaker);
+		}
+
+		if (this.showContextWindow) {
+			options.contextWindow = this.contextWindow;
+		}
+
+		return options;
+	}
+
 	private fetchLanguages(api: string): void {
-		let apiMethod;
-		let apiDisplayName;
-
-		switch (api) {
-			case 'deepl-free':
-				apiMethod = this.translationApiService.fetchDeeplSupportedLanguages(this.apiKey);
-				apiDisplayName = 'DeepL Free API';
-				break;
-			case 'google-free':
-				apiMethod = this.translationApiService.fetchGoogleFreeLanguages();
-				apiDisplayName = 'Google Translate';
-				break;
-			default:
-				this.errorMessage = 'Unknown API selected';
-				this.isLoading = false;
-				return;
+		const provider = this.translationApiService.getProvider(api);
+		if (!provider) {
+			this.errorMessage = 'Unknown API selected';
+			this.isLoading = false;
+			return;
 		}
 
-		apiMethod
+		const apiKey = provider.auth === 'none' ? '' : this.apiKey;
+		this.fetchSourceLanguages(api, apiKey);
+
+		this.translationApiService.fetchSupportedLanguages(api, apiKey)
 			.pipe(
 				catchError(error => {
-					this.errorMessage = error.message ?? `Failed to fetch languages from ${apiDisplayName}`;
+					this.errorMessage = error.message ?? `Failed to fetch languages from ${provider.name}`;
 					return of([]);
 				}),
 				finalize(() => {
@@ -220,12 +400,27 @@ export class ApiSelectorComponent implements OnInit, OnDestroy {
 				this.updateLanguageNames();
 
 				// Apply settings immediately after fetching languages
-				if (this.selectedApi === 'deepl-free' && this.apiKey) {
+				if (provider.auth === 'required' && this.apiKey) {
 					this.onSubmit();
 				}
 			});
 	}
 
+	/**
+	 * Load the languages the texts may be written in, only detection is offered when they cannot be loaded
+	 * @param api The identifier of the provider
+	 * @param apiKey The API key, empty when the provider needs none
+	 */
+	private fetchSourceLanguages(api: string, apiKey: string): void {
+		this.translationApiService.fetchSupportedLanguages(api, apiKey, 'source')
+			.pipe(
+				catchError(() => of([]))
+			)
+			.subscribe(languages => {
+				this.sourceLanguages = languages;
+			});
+	}
+
 	private addLanguagesToAvailable(languages: SupportedLanguage[]): void {
 		for (const lang of languages) {
 			if (lang.code !== 'default' && !this.availableLanguages.some(l => l.code === lang.code)) {
@@ -255,6 +450,11 @@ export class ApiSelectorComponent implements OnInit, OnDestroy {
 	 * This is called when the language changes to update the displayed language names
 	 */
 	private updateLanguageNames(): void {
+		this.sourceLanguages = this.sourceLanguages.map(lang => ({
+			...lang,
+			name: this.languageLocalizationService.getLanguageNameFromCode(lang.code, lang.name)
+		}));
+
 		// Skip if there are no languages to update
 		if (this.availableLanguages.length <= 1) {
 			return;
@@ -1,6 +1,9 @@
 import {Component, Input} from '@angular/core';
 import {CommonModule} from '@angular/common';
 import {TranslateModule} from '@ngx-translate/core';
+import {UNLIMITED_CHAR_LIMIT} from '../../../constants/api.constants';
+import {TranslationProvider} from '../../../models/translation-provider.model';
+import {TranslationApiService} from '../../../services/translation-api.service';
 
 @Component({
 	selector: 'app-api-usage-info',
@@ -24,4 +27,35 @@ export class ApiUsageInfoComponent {
 	@Input() retryCount: number = 0;
 	@Input() MAX_RETRY_ATTEMPTS: number = 5;
 
+	constructor(private readonly translationApiService: TranslationApiService) {
+	}
+
+	get provider(): TranslationProvider | undefined {
+		return this.translationApiService.getProvider(this.selectedApi);
+	}
+
+	/**
+	 * Check if the account has limits per period on top of the monthly one
+	 * @returns True if a weekly or daily limit is known
+	 */
+	hasPeriodLimits(): boolean {
+		return !!(this.weeklyLimit || this.dailyLimit);
+	}
+
+	/**
+	 * Check if the account has a monthly limit, pay-as-you-go accounts may have none
+	 * @returns True if the limit can be reached
+	 */
+	hasCharacterLimit(): boolean {
+		return this.characterLimit > 0 && this.characterLimit < UNLIMITED_CHAR_LIMIT;
+	}
+
+	/**
+	 * Get the price of a number of characters
+	 * @param characters Number of characters
+	 * @returns The price in the currency of the provider, 0 if the provider has no pricing
+	 */
+	getCost(characters: number): number {
+		return this.translationApiService.estimateCost(this.selectedApi, characters);
+	}
 }
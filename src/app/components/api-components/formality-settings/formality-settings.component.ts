@@ -0,0 +1,59 @@
+import {Component, EventEmitter, Input, Output} from '@angular/core';
+import {CommonModule} from '@angular/common';
+import {FormsModule} from '@angular/forms';
+import {TranslateModule} from '@ngx-translate/core';
+import {DEEPL_FORMALITIES} from '../../../constants/api.constants';
+import {Formality, SpeakerFormality} from '../../../models/formality.model';
+
+@Component({
+	selector: 'app-formality-settings',
+	standalone: true,
+	imports: [CommonModule, FormsModule, TranslateModule],
+	templateUrl: './formality-settings.component.html',
+	styleUrl: './formality-settings.component.scss'
+})
+export class FormalitySettingsComponent {
+	// False when the target language has a single register
+	@Input() supported: boolean = true;
+	@Input() formality: Formality = 'default';
+	@Input() speakerFormalities: SpeakerFormality[] = [];
+	@Output() formalityChange = new EventEmitter<Formality>();
+	@Output() speakerFormalitiesChange = new EventEmitter<SpeakerFormality[]>();
+
+	readonly formalities = DEEPL_FORMALITIES;
+
+	/**
+	 * Get the translation key of a formality
+	 * @param formality The formality
+	 * @returns The key, e.g. "FORMALITY_PREFER_MORE"
+	 */
+	getLabel(formality: Formality): string {
+		return `FORMALITY_${formality.toUpperCase()}`;
+	}
+
+	onFormalityChange(formality: Formality): void {
+		this.formality = formality;
+		this.formalityChange.emit(formality);
+	}
+
+	addSpeaker(): void {
+		this.updateSpeakers([...this.speakerFormalities, {speaker: '', formality: this.formality}]);
+	}
+
+	removeSpeaker(index: number): void {
+		this.updateSpeakers(this.speakerFormalities.filter((_, i) => i !== index));
+	}
+
+	onSpeakerChange(index: number, speaker: string): void {
+		this.updateSpeakers(this.speakerFormalities.map((setting, i) => i === index ? {...setting, speaker} : setting));
+	}
+
+	onSpeakerFormalityChange(index: number, formality: Formality): void {
+		this.updateSpeakers(this.speakerFormalities.map((setting, i) => i === index ? {...setting, formality} : setting));
+	}
+
+	private updateSpeakers(speakerFormalities: SpeakerFormality[]): void {
+		this.speakerFormalities = speakerFormalities;
+		this.speakerFormalitiesChange.emit(speakerFormalities);
+	}
+}
@@ -0,0 +1,269 @@
+import {Component, EventEmitter, Input, OnChanges, Output, SimpleChanges} from '@angular/core';
+import {CommonModule} from '@angular/common';
+import {FormsModule} from '@angular/forms';
+import {TranslateModule, TranslateService} from '@ngx-translate/core';
+import {forkJoin} from 'rxjs';
+import {finalize} from 'rxjs/operators';
+import {DeepLGlossary} from '../../../models/deepl-glossary.model';
+import {GlossaryEntry} from '../../../models/glossary-entry.model';
+import {GlossaryLanguagePair} from '../../../models/glossary-language-pair.model';
+import {DeepLGlossaryService} from '../../../services/deepl-glossary.service';
+import {TextFileService} from '../../../services/text-file.service';
+
+// Glossary being created or edited
+interface GlossaryDraft {
+	// Identifier of the edited glossary, null for a new one
+	glossaryId: string | null;
+	name: string;
+	sourceLang: string;
+	targetLang: string;
+	entries: GlossaryEntry[];
+}
+
+@Component({
+	selector: 'app-glossary-manager',
+	standalone: true,
+	imports: [CommonModule, FormsModule, TranslateModule],
+	templateUrl: './glossary-manager.component.html',
+	styleUrl: './glossary-manager.component.scss'
+})
+export class GlossaryManagerComponent implements OnChanges {
+	@Input() apiKey: string = '';
+	@Input() targetLanguage: string = '';
+	// Empty when the source language is detected
+	@Input() sourceLanguage: string = '';
+	@Input() selectedGlossaryId: string = '';
+	@Output() glossaryChange = new EventEmitter<DeepLGlossary | null>();
+
+	glossaries: DeepLGlossary[] = [];
+	languagePairs: GlossaryLanguagePair[] = [];
+	draft: GlossaryDraft | null = null;
+	isLoading: boolean = false;
+	isSaving: boolean = false;
+	errorMessage: string = '';
+
+	constructor(
+		private readonly deepLGlossaryService: DeepLGlossaryService,
+		private readonly textFileService: TextFileService,
+		private readonly translateService: TranslateService
+	) {
+	}
+
+	get selectedGlossary(): DeepLGlossary | undefined {
+		return this.glossaries.find(glossary => glossary.glossary_id === this.selectedGlossaryId);
+	}
+
+	/**
+	 * Get the source languages DeepL accepts for glossaries
+	 * @returns Lowercase language codes
+	 */
+	get sourceLanguages(): string[] {
+		return [...new Set(this.languagePairs.map(pair => pair.source_lang))].sort();
+	}
+
+	/**
+	 * Get the target languages DeepL accepts with the source language of the draft
+	 * @returns Lowercase language codes
+	 */
+	get targetLanguages(): string[] {
+		return this.languagePairs
+			.filter(pair => pair.source_lang === this.draft?.sourceLang)
+			.map(pair => pair.target_lang)
+			.sort();
+	}
+
+	ngOnChanges(changes: SimpleChanges): void {
+		if (changes['apiKey']) {
+			this.draft = null;
+			this.loadGlossaries();
+		}
+	}
+
+	/**
+	 * Check if a glossary applies to the selected target language
+	 * @param glossary The glossary
+	 * @returns True if the glossary targets the language
+	 */
+	isForTargetLanguage(glossary: DeepLGlossary): boolean {
+		return this.deepLGlossaryService.isForTargetLanguage(glossary, this.targetLanguage);
+	}
+
+	/**
+	 * Check if a glossary applies to the selected source language
+	 * @param glossary The glossary
+	 * @returns True if the source language is detected or the glossary translates from it
+	 */
+	isForSourceLanguage(glossary: DeepLGlossary): boolean {
+		return !this.sourceLanguage || this.deepLGlossaryService.isForSourceLanguage(glossary, this.sourceLanguage);
+	}
+
+	/**
+	 * Load the glossaries of the account and the language pairs they may use
+	 */
+	loadGlossaries(): void {
+		this.glossaries = [];
+		this.errorMessage = '';
+		if (!this.apiKey) {
+			return;
+		}
+
+		this.isLoading = true;
+		forkJoin([
+			this.deepLGlossaryService.listGlossaries(this.apiKey),
+			this.deepLGlossaryService.getLanguagePairs(this.apiKey)
+		]).pipe(
+			finalize(() => this.isLoading = false)
+		).subscribe({
+			next: ([glossaries, languagePairs]) => {
+				this.glossaries = glossaries;
+				this.languagePairs = languagePairs;
+
+				// The selected glossary was deleted or belongs to another account
+				if (this.selectedGlossaryId && !this.selectedGlossary) {
+					this.glossaryChange.emit(null);
+				}
+			},
+			error: error => {
+				console.error('Error loading DeepL glossaries:', error);
+				this.errorMessage = this.translateService.instant('GLOSSARY_LOAD_ERROR');
+			}
+		});
+	}
+
+	onGlossarySelect(glossaryId: string): void {
+		this.glossaryChange.emit(this.glossaries.find(glossary => glossary.glossary_id === glossaryId) ?? null);
+	}
+
+	newGlossary(): void {
+		const targetLang = this.targetLanguage.toLowerCase().split('-')[0];
+		const selectedSourceLang = this.sourceLanguage.toLowerCase().split('-')[0];
+		const sourceLang = this.sourceLanguages.includes(selectedSourceLang) ? selectedSourceLang : 'en';
+		this.draft = {
+			glossaryId: null,
+			name: '',
+			sourceLang,
+			targetLang: this.languagePairs.some(pair => pair.source_lang === sourceLang && pair.target_lang === targetLang) ? targetLang : '',
+			entries: [{source: '', target: ''}]
+		};
+	}
+
+	editGlossary(glossary: DeepLGlossary): void {
+		this.errorMessage = '';
+		this.isLoading = true;
+		this.deepLGlossaryService.getEntries(this.apiKey, glossary.glossary_id).pipe(
+			finalize(() => this.isLoading = false)
+		).subscribe({
+			next: entries => {
+				this.draft = {
+					glossaryId: glossary.glossary_id,
+					name: glossary.name,
+					sourceLang: glossary.source_lang.toLowerCase(),
+					targetLang: glossary.target_lang.toLowerCase(),
+					entries
+				};
+			},
+			error: error => {
+				console.error('Error loading DeepL glossary entries:', error);
+				this.errorMessage = this.translateService.instant('GLOSSARY_LOAD_ERROR');
+			}
+		});
+	}
+
+	deleteGlossary(glossary: DeepLGlossary): void {
+		this.errorMessage = '';
+		this.deepLGlossaryService.deleteGlossary(this.apiKey, glossary.glossary_id).subscribe({
+			next: () => {
+				this.glossaries = this.glossaries.filter(other => other.glossary_id !== glossary.glossary_id);
+				if (glossary.glossary_id === this.selectedGlossaryId) {
+					this.glossaryChange.emit(null);
+				}
+			},
+			error: error => {
+				console.error('Error deleting DeepL glossary:', error);
+				this.errorMessage = this.translateService.instant('GLOSSARY_DELETE_ERROR');
+			}
+		});
+	}
+
+	onSourceLanguageChange(): void {
+		// Keep the target language only if DeepL accepts the new pair
+		if (this.draft && !this.targetLanguages.includes(this.draft.targetLang)) {
+			this.draft.targetLang = '';
+		}
+	}
+
+	addEntry(): void {
+		this.draft?.entries.push({source: '', target: ''});
+	}
+
+	removeEntry(index: number): void {
+		this.draft?.entries.splice(index, 1);
+	}
+
+	/**
+	 * Add the terms of a CSV file to the draft, replacing its empty rows
+	 * @param event Change event of the file input
+	 */
+	async importCsv(event: Event): Promise<void> {
+		const input = event.target as HTMLInputElement;
+		const file = input.files?.[0];
+		input.value = '';
+		if (!file || !this.draft) {
+			return;
+		}
+
+		try {
+			const entries = this.deepLGlossaryService.parseCsv(await this.textFileService.readText(file));
+			this.draft.entries = [...this.draft.entries.filter(entry => entry.source || entry.target), ...entries];
+		} catch (error) {
+			console.error('Error reading glossary file', error);
+			this.errorMessage = this.translateService.instant('ERROR_READING_FILE');
+		}
+	}
+
+	/**
+	 * Create the glossary of the draft, or replace the edited glossary with it
+	 */
+	saveGlossary(): void {
+		const draft = this.draft;
+		if (!draft) {
+			return;
+		}
+
+		const entries = this.deepLGlossaryService.normalizeEntries(draft.entries);
+		if (!entries.length) {
+			this.errorMessage = this.translateService.instant('GLOSSARY_EMPTY');
+			return;
+		}
+
+		const name = draft.name.trim();
+		const request = draft.glossaryId
+			? this.deepLGlossaryService.replaceGlossary(this.apiKey, draft.glossaryId, name, draft.sourceLang, draft.targetLang, entries)
+			: this.deepLGlossaryService.createGlossary(this.apiKey, name, draft.sourceLang, draft.targetLang, entries);
+
+		this.errorMessage = '';
+		this.isSaving = true;
+		request.pipe(
+			finalize(() => this.isSaving = false)
+		).subscribe({
+			next: glossary => {
+				this.glossaries = [...this.glossaries.filter(other => other.glossary_id !== draft.glossaryId), glossary]
+					.sort((a, b) => a.name.localeCompare(b.name));
+				this.draft = null;
+
+				// An edited glossary gets a new identifier
+				if (draft.glossaryId && draft.glossaryId === this.selectedGlossaryId) {
+					this.glossaryChange.emit(glossary);
+				}
+			},
+			error: error => {
+				console.error('Error saving DeepL glossary:', error);
+				this.errorMessage = this.translateService.instant('GLOSSARY_SAVE_ERROR');
+			}
+		});
+	}
+
+	cancelEdit(): void {
+		this.draft = null;
+	}
+}
@@ -0,0 +1,90 @@
+import {Component, Input, OnChanges, SimpleChanges} from '@angular/core';
+import {CommonModule} from '@angular/common';
+import {FormsModule} from '@angular/forms';
+import {TranslateModule} from '@ngx-translate/core';
+import {LLM_DEFAULT_SYSTEM_PROMPT, LLM_DEFAULT_USER_PROMPT, LLM_PROMPT_VARIABLES} from '../../../constants/api.constants';
+import {LlmSettings} from '../../../models/llm-settings.model';
+import {DeepLGlossaryService} from '../../../services/deepl-glossary.service';
+import {LlmTranslationService} from '../../../services/llm-translation.service';
+
+@Component({
+	selector: 'app-llm-settings',
+	standalone: true,
+	imports: [CommonModule, FormsModule, TranslateModule],
+	templateUrl: './llm-settings.component.html',
+	styleUrl: './llm-settings.component.scss'
+})
+export class LlmSettingsComponent implements OnChanges {
+	// Key of the server, empty for local servers
+	@Input() apiKey: string = '';
+
+	settings: LlmSettings;
+	// Terms of the glossary as edited, one "source,target" line per term
+	glossaryText: string = '';
+	// Models of the server, empty when it does not list them
+	models: string[] = [];
+	readonly promptVariables = LLM_PROMPT_VARIABLES.map(variable => `{{${variable}}}`).join(', ');
+
+	constructor(
+		private readonly llmTranslationService: LlmTranslationService,
+		private readonly deepLGlossaryService: DeepLGlossaryService
+	) {
+		this.settings = this.llmTranslationService.getSettings();
+		this.glossaryText = this.formatGlossary();
+	}
+
+	ngOnChanges(changes: SimpleChanges): void {
+		if (changes['apiKey']) {
+			this.loadModels();
+		}
+	}
+
+	onModelChange(model: string): void {
+		this.saveSettings({...this.settings, model: model.trim()});
+	}
+
+	onSystemPromptChange(systemPrompt: string): void {
+		this.saveSettings({...this.settings, systemPrompt});
+	}
+
+	onUserPromptChange(userPrompt: string): void {
+		this.saveSettings({...this.settings, userPrompt});
+	}
+
+	onGlossaryChange(glossaryText: string): void {
+		this.glossaryText = glossaryText;
+		this.saveSettings({
+			...this.settings,
+			glossary: this.deepLGlossaryService.normalizeEntries(this.deepLGlossaryService.parseCsv(glossaryText))
+		});
+	}
+
+	resetPrompts(): void {
+		this.saveSettings({...this.settings, systemPrompt: LLM_DEFAULT_SYSTEM_PROMPT, userPrompt: LLM_DEFAULT_USER_PROMPT});
+	}
+
+	/**
+	 * Load the models of the server for the suggestions of the model input
+	 * The model can still be typed in when the server does not list them
+	 */
+	private loadModels(): void {
+		this.llmTranslationService.listModels(this.apiKey).subscribe({
+			next: models => this.models = models,
+			error: () => this.models = []
+		});
+	}
+
+	private saveSettings(settings: LlmSettings): void {
+		this.llmTranslationService.saveSettings(settings);
+		this.settings = this.llmTranslationService.getSettings();
+	}
+
+	/**
+	 * Write the terms of the glossary as CSV lines
+	 * @returns One "source,target" line per term, quoted when a term contains a comma or a quote
+	 */
+	private formatGlossary(): string {
+		const quote = (term: string) => /[",]/.test(term) ? `"${term.replace(/"/g, '""')}"` : term;
+		return this.settings.glossary.map(entry => `${quote(entry.source)},${quote(entry.target)}`).join('\n');
+	}
+}
@@ -1,6 +1,8 @@
 import {Component, Input} from '@angular/core';
 import {CommonModule} from '@angular/common';
 import {TranslateModule} from '@ngx-translate/core';
+import {TranslationProvider} from '../../../models/translation-provider.model';
+import {TranslationApiService} from '../../../services/translation-api.service';
 
 @Component({
 	selector: 'app-extracted-lines-info',
@@ -16,4 +18,20 @@ export class ExtractedLinesInfoComponent {
 	@Input() willExceedFileLimit: boolean = false;
 	@Input() selectedApi: string = '';
 	@Input() fileCharLimit: number = 0;
+	@Input() detectedLanguages: string[] = [];
+
+	constructor(private readonly translationApiService: TranslationApiService) {
+	}
+
+	get provider(): TranslationProvider | undefined {
+		return this.translationApiService.getProvider(this.selectedApi);
+	}
+
+	/**
+	 * Estimate the price of translating the extracted lines
+	 * @returns The price in the currency of the provider, 0 if the provider is not billed per character
+	 */
+	getEstimatedCost(): number {
+		return this.translationApiService.estimateCost(this.selectedApi, this.extractedLinesCharCount);
+	}
 }
@@ -1,4 +1,4 @@
-import {Component, Input, OnChanges, OnDestroy, signal, SimpleChanges} from '@angular/core';
+import {Component, EventEmitter, Input, OnChanges, OnDestroy, Output, signal, SimpleChanges} from '@angular/core';
 import {CommonModule} from '@angular/common';
 import {MatButtonModule} from '@angular/material/button';
 import {MatIconModule} from '@angular/material/icon';
@@ -7,10 +7,33 @@ import {TranslateModule, TranslateService} from '@ngx-translate/core';
 import {TranslationApiService} from '../../../services/translation-api.service';
 import {RenpyFileParserService} from '../../../services/renpy-file-parser.service';
 import {TranslationProcessorService} from '../../../services/translation-processor.service';
+import {TranslationTemplateService} from '../../../services/translation-template.service';
+import {TranslationValidatorService} from '../../../services/translation-validator.service';
 import {catchError, map, Observable, of} from 'rxjs';
 import {ApiUsageInfoComponent} from '../../api-components/api-usage-info/api-usage-info.component';
 import {ExtractedLinesInfoComponent} from '../extracted-lines-info/extracted-lines-info.component';
+import {LintReportComponent} from '../lint-report/lint-report.component';
+import {RetranslateOptionsComponent} from '../retranslate-options/retranslate-options.component';
+import {ReviewGridComponent} from '../review-grid/review-grid.component';
+import {SourceLanguageReportComponent} from '../source-language-report/source-language-report.component';
+import {ValidationReportComponent} from '../validation-report/validation-report.component';
 import {ApiUsageResult} from '../../../models/api-usage-result.model';
+import {TranslationUnit} from '../../../models/translation-unit.model';
+import {ParserDiagnostic} from '../../../models/parser-diagnostic.model';
+import {ReplacementError, ReplacementErrorReason} from '../../../models/replacement-result.model';
+import {RetranslateOptions} from '../../../models/retranslate-options.model';
+import {RetranslatedLine} from '../../../models/retranslated-line.model';
+import {ValidationIssue} from '../../../models/validation-issue.model';
+import {ReviewItem} from '../../../models/review-item.model';
+import {TranslationOptions} from '../../../models/translation-options.model';
+import {TextContext} from '../../../models/text-context.model';
+import {SourceLanguageReport} from '../../../models/source-language-report.model';
+import {TranslatedFile} from '../../../models/translated-file.model';
+
+interface PlaceholderIssue {
+	sourceText: string;
+	missing: string[];
+}
 
 @Component({
 	selector: 'app-file-translation',
@@ -21,7 +44,12 @@ import {ApiUsageResult} from '../../../models/api-usage-result.model';
 		MatIconModule,
 		TranslateModule,
 		ApiUsageInfoComponent,
-		ExtractedLinesInfoComponent
+		ExtractedLinesInfoComponent,
+		LintReportComponent,
+		RetranslateOptionsComponent,
+		ReviewGridComponent,
+		SourceLanguageReportComponent,
+		ValidationReportComponent
 	],
 	templateUrl: './file-translation.component.html',
 	styleUrls: ['./file-translation.component.scss']
@@ -32,6 +60,11 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 	@Input() apiKey: string = '';
 	@Input() targetLanguage: string = '';
 	@Input() selectedApi: string = '';
+	@Input() translationOptions: TranslationOptions = {};
+	// Monthly character limit set by the user, for the providers reporting no quota
+	@Input() billingLimit: number = 0;
+	// File generated by the last translation and the file it was written into, for review
+	@Output() translated = new EventEmitter<TranslatedFile>();
 
 	translationFileName = signal<string>('');
 	isApiConfigured = signal<boolean>(false);
@@ -55,8 +88,33 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 	// Extracted lines information
 	extractedLinesCount = signal<number>(0);
 	extractedLinesCharCount = signal<number>(0);
+	detectedLanguages = signal<string[]>([]);
+	// Lines of the file the parser could not understand
+	diagnostics = signal<ParserDiagnostic[]>([]);
+	// Set when the file is a game script: a template for this Ren'Py language is generated before translating
+	templateLanguage = signal<string>('');
 	willExceedLimit = signal<boolean>(false);
 	willExceedFileLimit = signal<boolean>(false);
+	// Lines whose tags or interpolations were lost by the translation API
+	placeholderIssues = signal<PlaceholderIssue[]>([]);
+	// Source languages detected by the API in the translated lines
+	sourceLanguageReport = signal<SourceLanguageReport | null>(null);
+	// Translations that could not be written back to their target line
+	replacementErrors = signal<ReplacementError[]>([]);
+	// Which units are translated, existing translations included or not
+	retranslateOptions = signal<RetranslateOptions>({scope: 'untranslated', fromLine: 1, toLine: 1});
+	// Existing translations overwritten by the last translation, kept for comparison
+	retranslatedLines = signal<RetranslatedLine[]>([]);
+	// Translations waiting for review, the file is only written once they are all approved or rejected
+	reviewItems = signal<ReviewItem[]>([]);
+	// Index of the review item being translated again, -1 when none
+	retranslatingIndex = signal<number>(-1);
+	// Errors and warnings of the translated file
+	validationIssues = signal<ValidationIssue[]>([]);
+	// Translated file held back because of validation errors, until the download is forced
+	blockedContent = signal<string | null>(null);
+	// Translated file waiting for its download, so that its changes can be checked first
+	translatedContent = signal<string | null>(null);
 	// For tracking API usage changes
 	private previousCharacterCount: number = 0;
 	private countdownInterval: any = null;
@@ -68,7 +126,9 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 		private readonly translateService: TranslateService,
 		private readonly translationApiService: TranslationApiService,
 		private readonly renpyFileParserService: RenpyFileParserService,
-		private readonly translationProcessorService: TranslationProcessorService
+		private readonly translationProcessorService: TranslationProcessorService,
+		private readonly translationTemplateService: TranslationTemplateService,
+		private readonly translationValidatorService: TranslationValidatorService
 	) {
 	}
 
@@ -78,9 +138,8 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 
 	ngOnChanges(changes: SimpleChanges): void {
 		// Check if API is configured
-		// For DeepL API, we need an API key
-		const isConfigured = !!(this.selectedApi && this.targetLanguage) &&
-			(this.selectedApi !== 'deepl-free' || !!this.apiKey);
+		// Some providers need an API key
+		const isConfigured = !!this.targetLanguage && this.translationApiService.isConfigured(this.selectedApi, this.apiKey);
 		this.isApiConfigured.set(isConfigured);
 
 		// Update translation file name when file name changes
@@ -88,9 +147,9 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 			this.translationFileName.set(`to_translate_${this.fileName}`);
 		}
 
-		// Fetch API usage information when API key changes or API is selected
-		if (changes['apiKey'] || changes['selectedApi']) {
-			if ((this.selectedApi === 'deepl-free' && this.apiKey) || this.selectedApi === 'google-free') {
+		// Fetch API usage information when API key changes, API is selected or its limit is set
+		if (changes['apiKey'] || changes['selectedApi'] || changes['billingLimit']) {
+			if (this.translationApiService.isConfigured(this.selectedApi, this.apiKey)) {
 				// Initial fetch should be single-shot: no retries/backoff
 				this.allowUsageRetry.set(false);
 				this.fetchApiUsage();
@@ -99,10 +158,17 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 
 		// Update extracted lines information when file content changes (e.g., file dragged)
 		if (changes['fileContent'] && this.fileContent) {
+			this.translatedContent.set(null);
+			this.blockedContent.set(null);
+			this.updateTemplateLanguage();
 			this.updateExtractedLinesInfo();
 			// After a file is dragged/loaded, perform a single usage check (no retries)
 			this.allowUsageRetry.set(false);
 			this.fetchApiUsage();
+		} else if (changes['targetLanguage'] && this.fileContent) {
+			// The language of a generated template follows the target language
+			this.updateTemplateLanguage();
+			this.updateExtractedLinesInfo();
 		}
 	}
 
@@ -111,7 +177,7 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 	 * If the character count hasn't changed, it will retry up to MAX_RETRY_ATTEMPTS times
 	 */
 	fetchApiUsage(): void {
-		if (this.selectedApi === 'deepl-free' && !this.apiKey) {
+		if (!this.translationApiService.isConfigured(this.selectedApi, this.apiKey)) {
 			return;
 		}
 
@@ -140,12 +206,16 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 		if (!this.fileContent) {
 			this.extractedLinesCount.set(0);
 			this.extractedLinesCharCount.set(0);
+			this.detectedLanguages.set([]);
+			this.diagnostics.set([]);
 			this.willExceedLimit.set(false);
 			return;
 		}
 
 		const extractedLines = this.extractLines();
 		this.extractedLinesCount.set(extractedLines.length);
+		this.detectedLanguages.set(this.renpyFileParserService.detectLanguages(this.getTranslationContent()));
+		this.diagnostics.set(this.renpyFileParserService.parse(this.getTranslationContent()).diagnostics);
 
 		// Calculate character count using the translation API service
 		this.extractedLinesCharCount.set(
@@ -180,10 +250,10 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 	}
 
 	/**
-	 * Extracts lines that need to be translated from the file content
-	 * @returns Array of strings to be translated
+	 * Parses the file content into translation units
+	 * @returns Array of translation units
 	 */
-	extractLines(): string[] {
+	parseUnits(): TranslationUnit[] {
 		if (!this.fileContent) {
 			this.snackBar.open(this.translateService.instant('NO_FILE_LOADED'), this.translateService.instant('CLOSE'), {
 				duration: 3000,
@@ -191,29 +261,69 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 			return [];
 		}
 
-		return this.renpyFileParserService.extractLines(this.fileContent);
+		return this.renpyFileParserService.parseUnits(this.getTranslationContent());
 	}
 
-	extractCommand(line: string): string {
-		return this.renpyFileParserService.extractCommand(line);
+	/**
+	 * Get the content to translate: the loaded file, or the template generated from it when it is a game script
+	 * @returns The translation file content
+	 */
+	getTranslationContent(): string {
+		if (!this.fileContent || !this.templateLanguage()) {
+			return this.fileContent ?? '';
+		}
+
+		return this.translationTemplateService.generateTemplates(
+			[{path: this.fileName, content: this.fileContent}],
+			this.templateLanguage()
+		)[0].content;
 	}
 
 	/**
-	 * Finds lines in the file content that need to be filled with translations
-	 * @returns Array of strings to be filled with translations
+	 * Check if the loaded file is a game script and choose the language of its template
 	 */
-	findLinesToFill(): string[] {
-		if (!this.fileContent) {
-			this.snackBar.open(this.translateService.instant('NO_FILE_LOADED'), this.translateService.instant('CLOSE'), {
-				duration: 3000,
-			});
-			return [];
-		}
+	updateTemplateLanguage(): void {
+		const isSourceScript = !!this.fileContent && this.translationTemplateService.isSourceScript(this.fileContent);
+		this.templateLanguage.set(
+			isSourceScript ? this.translationTemplateService.getRenpyLanguage(this.targetLanguage || 'template') : ''
+		);
+	}
+
+	/**
+	 * Keeps the units to translate according to the retranslate options
+	 * @returns Array of units to be translated
+	 */
+	selectUnits(): TranslationUnit[] {
+		return this.renpyFileParserService.selectUnits(this.parseUnits(), this.retranslateOptions());
+	}
+
+	/**
+	 * Describe the speaker and the surrounding dialogue of units of the file
+	 * @param units Units to translate
+	 * @returns The context of each unit, with as many surrounding lines as the context window
+	 */
+	getTextContexts(units: TranslationUnit[]): TextContext[] {
+		return this.renpyFileParserService.getTextContexts(this.parseUnits(), units, this.translationOptions.contextWindow ?? 0);
+	}
 
-		return this.renpyFileParserService.findLinesToFill(this.fileContent);
+	/**
+	 * Extracts lines that need to be translated from the file content
+	 * @returns Array of strings to be translated
+	 */
+	extractLines(): string[] {
+		return this.selectUnits().map(unit => unit.sourceText);
 	}
 
-	translateLines(linesToTranslate: string[]): Observable<string[]> {
+	/**
+	 * Update the units to translate when the retranslate options change
+	 * @param options The new retranslate options
+	 */
+	onRetranslateOptionsChange(options: RetranslateOptions): void {
+		this.retranslateOptions.set(options);
+		this.updateExtractedLinesInfo();
+	}
+
+	translateLines(linesToTranslate: string[], contexts: TextContext[] = []): Observable<string[]> {
 		if (!linesToTranslate || linesToTranslate.length === 0) {
 			return of([]);  // If no lines, return an empty array
 		}
@@ -223,7 +333,9 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 			this.selectedApi,
 			linesToTranslate,
 			this.targetLanguage,
-			this.apiKey
+			this.apiKey,
+			this.translationOptions,
+			contexts
 		).pipe(
 			map(result => {
 				if (result.error) {
@@ -234,6 +346,14 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 					});
 					return [];  // Return an empty array in case of error
 				}
+
+				// Flag the lines whose Ren'Py markup could not be restored
+				this.placeholderIssues.set((result.placeholderWarnings ?? []).map(warning => ({
+					sourceText: linesToTranslate[warning.index],
+					missing: warning.missing
+				})));
+				this.sourceLanguageReport.set(result.sourceLanguageReport ?? null);
+
 				return result.translatedTexts;
 			}),
 			catchError(err => {
@@ -246,29 +366,162 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 		);
 	}
 
-	createFilledLines(linesToFill: string[], translatedLines: string[]): string[] {
-		return this.translationProcessorService.createFilledLines(linesToFill, translatedLines);
+	/**
+	 * List the translations for review before writing them to the file
+	 * @param units Array of units that were translated
+	 * @param translatedLines Array of translated lines, in the same order as the units
+	 */
+	startReview(units: TranslationUnit[], translatedLines: string[]): void {
+		// Without a translation per unit there is nothing to review, the replacement reports the mismatch
+		if (units.length !== translatedLines.length) {
+			this.replaceLines(units, translatedLines);
+			return;
+		}
+
+		this.reviewItems.set(units.map((unit, i) => ({
+			unit,
+			machineTranslation: translatedLines[i],
+			finalText: translatedLines[i],
+			status: 'pending'
+		})));
+	}
+
+	/**
+	 * Translate one reviewed line again, its edits are replaced by the new translation
+	 * @param index Index of the review item
+	 */
+	retranslateReviewItem(index: number): void {
+		const item = this.reviewItems()[index];
+		if (!item) {
+			return;
+		}
+
+		this.retranslatingIndex.set(index);
+		const contexts = this.getTextContexts([item.unit]);
+		this.translationApiService.translateTexts(this.selectedApi, [item.unit.sourceText], this.targetLanguage, this.apiKey, this.translationOptions, contexts).subscribe({
+			next: (result) => {
+				const translation = result.translatedTexts[0];
+				if (result.error || translation === undefined) {
+					this.snackBar.open(this.translateService.instant('TRANSLATION_ERROR'), this.translateService.instant('CLOSE'), {
+						duration: 3000,
+					});
+				} else {
+					this.reviewItems.update(items => items.map((reviewItem, i) => i === index
+						? {...reviewItem, machineTranslation: translation, finalText: translation, status: 'pending'}
+						: reviewItem));
+				}
+				this.retranslatingIndex.set(-1);
+			},
+			error: (err) => {
+				console.error('Translation error:', err);
+				this.snackBar.open(this.translateService.instant('TRANSLATION_ERROR'), this.translateService.instant('CLOSE'), {
+					duration: 3000,
+				});
+				this.retranslatingIndex.set(-1);
+			}
+		});
 	}
 
+	/**
+	 * Write the reviewed translations to the file, rejected and empty ones being left out
+	 */
+	exportReview(): void {
+		const accepted = this.reviewItems().filter(item => item.status === 'approved' && item.finalText);
+		this.reviewItems.set([]);
+
+		if (!accepted.length) {
+			this.snackBar.open(this.translateService.instant('NO_LINES_TO_TRANSLATE'), this.translateService.instant('CLOSE'), {
+				duration: 3000,
+			});
+			return;
+		}
+
+		this.replaceLines(accepted.map(item => item.unit), accepted.map(item => item.finalText));
+	}
 
 	/**
 	 * Replace empty lines in the file content with translated lines
-	 * @param filledLines Array of strings with translations to fill in the file
+	 * @param units Array of units that were translated
+	 * @param translatedLines Array of translated lines, in the same order as the units
 	 */
-	replaceLines(filledLines: string[]): void {
+	replaceLines(units: TranslationUnit[], translatedLines: string[]): void {
 		if (!this.fileContent) {
 			return;
 		}
 
 		// Use the translation processor service to replace lines
-		const newContent = this.translationProcessorService.replaceLines(
-			this.fileContent,
-			filledLines,
-			(line) => this.extractCommand(line)
-		);
+		const translationContent = this.getTranslationContent();
+		const result = this.translationProcessorService.replaceLines(translationContent, units, translatedLines);
+		this.replacementErrors.set(result.errors);
+		this.retranslatedLines.set(units
+			.map((unit, i) => ({
+				lineNumber: unit.targetLineIndex + 1,
+				sourceText: unit.sourceText,
+				previousTranslation: unit.existingTranslation,
+				translation: translatedLines[i] ?? ''
+			}))
+			.filter(line => line.previousTranslation));
+
+		if (!result.filledCount) {
+			this.snackBar.open(this.translateService.instant('ERROR_REINTEGRATING_LINES'), this.translateService.instant('CLOSE'), {
+				duration: 3000,
+			});
+			return;
+		}
+
+		// The changes are compared with the file the translations were written into
+		this.translated.emit({originalContent: translationContent, content: result.content});
+
+		// Hold the file back when it would break the game, unless the download is forced
+		const issues = this.translationValidatorService.validate(translationContent, result.content, units);
+		this.validationIssues.set(issues);
+		if (this.translationValidatorService.hasErrors(issues)) {
+			this.blockedContent.set(result.content);
+			this.snackBar.open(this.translateService.instant('VALIDATION_BLOCKED'), this.translateService.instant('CLOSE'), {
+				duration: 3000,
+			});
+			return;
+		}
+
+		// The file is downloaded once the user has checked the changes
+		this.translatedContent.set(result.content);
+		this.snackBar.open(this.translateService.instant('TRANSLATED_FILE_READY'), this.translateService.instant('CLOSE'), {
+			duration: 3000,
+		});
+	}
+
+	/**
+	 * Download the translated file, once its changes are checked
+	 */
+	downloadTranslatedFile(): void {
+		const content = this.translatedContent();
+		if (content === null) {
+			return;
+		}
 
-		// Generate and download the file after replacing the translated lines
-		this.generateTranslationFile(newContent);
+		this.generateTranslationFile(content);
+	}
+
+	/**
+	 * Download the translated file held back by validation errors
+	 */
+	downloadBlockedFile(): void {
+		const content = this.blockedContent();
+		if (content === null) {
+			return;
+		}
+
+		this.blockedContent.set(null);
+		this.generateTranslationFile(content);
+	}
+
+	/**
+	 * Get the translation key describing a replacement error
+	 * @param reason Reason of the error, e.g. "line-changed"
+	 * @returns The translation key, e.g. "REPLACEMENT_LINE_CHANGED"
+	 */
+	getReplacementErrorKey(reason: ReplacementErrorReason): string {
+		return `REPLACEMENT_${reason.toUpperCase().replace(/-/g, '_')}`;
 	}
 
 	generateTranslationFile(content: string): void {
@@ -297,11 +550,19 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 
 		// Set translating state to true
 		this.isTranslating.set(true);
+		this.placeholderIssues.set([]);
+		this.sourceLanguageReport.set(null);
+		this.replacementErrors.set([]);
+		this.retranslatedLines.set([]);
+		this.validationIssues.set([]);
+		this.blockedContent.set(null);
+		this.translatedContent.set(null);
+		this.reviewItems.set([]);
 
 		try {
-			// Use existing methods to get the three arrays
-			const extractedLines = this.extractLines(); // Content to extract (between quotes)
-			const linesToFill = this.findLinesToFill(); // Lines to fill
+			// Parse the file once: each unit knows its source text and its target line
+			const unitsToTranslate = this.selectUnits();
+			const extractedLines = unitsToTranslate.map(unit => unit.sourceText);
 
 			// Check that we have lines to translate
 			if (extractedLines.length === 0) {
@@ -316,13 +577,10 @@ export class FileTranslationComponent implements OnChanges, OnDestroy {
 			// since the button is disabled when limits are exceeded
 
 			// Translate the extracted lines
-			this.translateLines(extractedLines).subscribe({
+			this.translateLines(extractedLines, this.getTextContexts(unitsToTranslate)).subscribe({
 				next: (translatedLines) => {
-					// Create an array for the new filled lines
-					const filledLines = this.createFilledLines(linesToFill, translatedLines);
-
-					// Replace the lines in the file
-					this.replaceLines(filledLines);
+					// The lines are written to the file once reviewed
+					this.startReview(unitsToTranslate, translatedLines);
 
 					// Update usage information after translation
 					const updateInfo = this.translationApiService.updateUsageAfterTranslation(this.selectedApi);
@@ -1,6 +1,8 @@
-import {Component, Input} from '@angular/core';
+import {Component, ElementRef, Input, OnChanges, SimpleChanges, ViewChild} from '@angular/core';
 import {CommonModule} from '@angular/common';
 import {TranslateModule} from '@ngx-translate/core';
+import {DiffLine} from '../../../models/diff-line.model';
+import {TextDiffService} from '../../../services/text-diff.service';
 
 @Component({
 	selector: 'app-file-viewer',
@@ -9,12 +11,70 @@ import {TranslateModule} from '@ngx-translate/core';
 	templateUrl: './file-viewer.component.html',
 	styleUrl: './file-viewer.component.scss'
 })
-export class FileViewerComponent {
+export class FileViewerComponent implements OnChanges {
 	@Input() fileName: string = '';
 	@Input() fileContent: string | null = null;
+	// File the translations were written into, the uploaded file when null: a game script is compared through its template
+	@Input() originalContent: string | null = null;
+	// File generated by the translation, compared with the original file
+	@Input() translatedContent: string | null = null;
+	@ViewChild('diffContent') diffContent?: ElementRef<HTMLElement>;
 	isCollapsed = false;
+	showDiff = false;
+
+	diffLines: DiffLine[] = [];
+	// Index in diffLines of the first line of each change
+	changeStarts: number[] = [];
+	currentChange = -1;
+
+	constructor(private readonly textDiffService: TextDiffService) {
+	}
+
+	ngOnChanges(changes: SimpleChanges): void {
+		if (changes['fileContent'] || changes['originalContent'] || changes['translatedContent']) {
+			this.updateDiff();
+		}
+	}
 
 	toggleCollapse(): void {
 		this.isCollapsed = !this.isCollapsed;
 	}
+
+	setShowDiff(showDiff: boolean): void {
+		this.showDiff = showDiff;
+		this.isCollapsed = false;
+	}
+
+	/**
+	 * Scroll to the previous or next change
+	 * @param step -1 for the previous change, 1 for the next one
+	 */
+	goToChange(step: number): void {
+		if (!this.changeStarts.length) {
+			return;
+		}
+
+		this.currentChange = (this.currentChange + step + this.changeStarts.length) % this.changeStarts.length;
+		const line = this.diffContent?.nativeElement.querySelector(`[data-diff-index="${this.changeStarts[this.currentChange]}"]`);
+		line?.scrollIntoView({block: 'center', behavior: 'smooth'});
+	}
+
+	/**
+	 * Compare the file the translations were written into with the translated one,
+	 * and show the changes as soon as there is a translation
+	 */
+	private updateDiff(): void {
+		if (!this.fileContent || !this.translatedContent) {
+			this.diffLines = [];
+			this.changeStarts = [];
+			this.showDiff = false;
+			this.currentChange = -1;
+			return;
+		}
+
+		this.diffLines = this.textDiffService.diffLines(this.originalContent ?? this.fileContent, this.translatedContent);
+		this.changeStarts = this.textDiffService.getChangeStarts(this.diffLines);
+		this.currentChange = -1;
+		this.showDiff = true;
+	}
 }
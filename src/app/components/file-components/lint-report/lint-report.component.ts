@@ -0,0 +1,24 @@
+import {Component, Input} from '@angular/core';
+import {CommonModule} from '@angular/common';
+import {TranslateModule} from '@ngx-translate/core';
+import {ParserDiagnostic, ParserDiagnosticReason} from '../../../models/parser-diagnostic.model';
+
+@Component({
+	selector: 'app-lint-report',
+	standalone: true,
+	imports: [CommonModule, TranslateModule],
+	templateUrl: './lint-report.component.html',
+	styleUrl: './lint-report.component.scss'
+})
+export class LintReportComponent {
+	@Input() diagnostics: ParserDiagnostic[] = [];
+
+	/**
+	 * Get the translation key describing a diagnostic reason
+	 * @param reason Reason of the diagnostic, e.g. "orphan-new"
+	 * @returns The translation key, e.g. "LINT_ORPHAN_NEW"
+	 */
+	getReasonKey(reason: ParserDiagnosticReason): string {
+		return `LINT_${reason.toUpperCase().replace(/-/g, '_')}`;
+	}
+}
@@ -0,0 +1,30 @@
+import {Component, EventEmitter, Input, Output} from '@angular/core';
+import {CommonModule} from '@angular/common';
+import {FormsModule} from '@angular/forms';
+import {TranslateModule} from '@ngx-translate/core';
+import {RetranslateOptions, RetranslateScope} from '../../../models/retranslate-options.model';
+
+@Component({
+	selector: 'app-retranslate-options',
+	standalone: true,
+	imports: [CommonModule, FormsModule, TranslateModule],
+	templateUrl: './retranslate-options.component.html',
+	styleUrl: './retranslate-options.component.scss'
+})
+export class RetranslateOptionsComponent {
+	@Input() options: RetranslateOptions = {scope: 'untranslated', fromLine: 1, toLine: 1};
+	// The folder flow has no line numbers to choose a range from
+	@Input() allowRange: boolean = true;
+	@Output() optionsChange = new EventEmitter<RetranslateOptions>();
+
+	readonly scopes: { value: RetranslateScope, label: string }[] = [
+		{value: 'untranslated', label: 'RETRANSLATE_UNTRANSLATED'},
+		{value: 'all', label: 'RETRANSLATE_ALL'},
+		{value: 'range', label: 'RETRANSLATE_RANGE'},
+		{value: 'identical', label: 'RETRANSLATE_IDENTICAL'}
+	];
+
+	onOptionsChange(): void {
+		this.optionsChange.emit({...this.options});
+	}
+}
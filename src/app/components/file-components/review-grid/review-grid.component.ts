@@ -0,0 +1,49 @@
+import {Component, EventEmitter, Input, Output} from '@angular/core';
+import {CommonModule} from '@angular/common';
+import {TranslateModule} from '@ngx-translate/core';
+import {ReviewItem, ReviewStatus} from '../../../models/review-item.model';
+
+@Component({
+	selector: 'app-review-grid',
+	standalone: true,
+	imports: [CommonModule, TranslateModule],
+	templateUrl: './review-grid.component.html',
+	styleUrl: './review-grid.component.scss'
+})
+export class ReviewGridComponent {
+	@Input() items: ReviewItem[] = [];
+	// Index of the item being translated again, -1 when none
+	@Input() retranslatingIndex: number = -1;
+	@Output() itemsChange = new EventEmitter<ReviewItem[]>();
+	@Output() retranslate = new EventEmitter<number>();
+	@Output() export = new EventEmitter<void>();
+	@Output() discard = new EventEmitter<void>();
+
+	countItems(status: ReviewStatus): number {
+		return this.items.filter(item => item.status === status).length;
+	}
+
+	setStatus(index: number, status: ReviewStatus): void {
+		this.updateItem(index, {status});
+	}
+
+	onFinalTextChange(index: number, event: Event): void {
+		this.updateItem(index, {finalText: (event.target as HTMLTextAreaElement).value});
+	}
+
+	/**
+	 * Restore the machine translation of an edited item
+	 * @param index Index of the item
+	 */
+	resetFinalText(index: number): void {
+		this.updateItem(index, {finalText: this.items[index].machineTranslation});
+	}
+
+	approvePending(): void {
+		this.itemsChange.emit(this.items.map(item => item.status === 'pending' ? {...item, status: 'approved'} : item));
+	}
+
+	private updateItem(index: number, changes: Partial<ReviewItem>): void {
+		this.itemsChange.emit(this.items.map((item, i) => i === index ? {...item, ...changes} : item));
+	}
+}
@@ -0,0 +1,15 @@
+import {Component, Input} from '@angular/core';
+import {CommonModule} from '@angular/common';
+import {TranslateModule} from '@ngx-translate/core';
+import {SourceLanguageReport} from '../../../models/source-language-report.model';
+
+@Component({
+	selector: 'app-source-language-report',
+	standalone: true,
+	imports: [CommonModule, TranslateModule],
+	templateUrl: './source-language-report.component.html',
+	styleUrl: './source-language-report.component.scss'
+})
+export class SourceLanguageReportComponent {
+	@Input() report: SourceLanguageReport | null = null;
+}
@@ -0,0 +1,90 @@
+import {Component, signal} from '@angular/core';
+import {CommonModule} from '@angular/common';
+import {FormsModule} from '@angular/forms';
+import {TranslateModule} from '@ngx-translate/core';
+import {saveAs} from 'file-saver';
+import {MIGRATION_SIMILARITY_THRESHOLD} from '../../../constants/renpy.constants';
+import {MigrationResult} from '../../../models/migration-result.model';
+import {ReplacementErrorReason} from '../../../models/replacement-result.model';
+import {TextFileService} from '../../../services/text-file.service';
+import {TranslationMigrationService} from '../../../services/translation-migration.service';
+import {TranslationProcessorService} from '../../../services/translation-processor.service';
+
+@Component({
+	selector: 'app-translation-migration',
+	standalone: true,
+	imports: [CommonModule, FormsModule, TranslateModule],
+	templateUrl: './translation-migration.component.html',
+	styleUrl: './translation-migration.component.scss'
+})
+export class TranslationMigrationComponent {
+	previousFile: File | null = null;
+	newFile: File | null = null;
+	// Minimum similarity of a fuzzy match, in percent
+	threshold: number = Math.round(MIGRATION_SIMILARITY_THRESHOLD * 100);
+
+	result = signal<MigrationResult | null>(null);
+	isMigrating = signal<boolean>(false);
+
+	constructor(
+		private readonly textFileService: TextFileService,
+		private readonly translationMigrationService: TranslationMigrationService,
+		private readonly translationProcessorService: TranslationProcessorService
+	) {
+	}
+
+	onPreviousFileSelected(event: Event): void {
+		this.previousFile = (event.target as HTMLInputElement).files?.[0] ?? null;
+		this.result.set(null);
+	}
+
+	onNewFileSelected(event: Event): void {
+		this.newFile = (event.target as HTMLInputElement).files?.[0] ?? null;
+		this.result.set(null);
+	}
+
+	/**
+	 * Carry the translations of the previous file over to the new one
+	 */
+	async migrate(): Promise<void> {
+		if (!this.previousFile || !this.newFile) {
+			return;
+		}
+
+		this.isMigrating.set(true);
+		try {
+			const previousContent = await this.textFileService.readText(this.previousFile);
+			const newContent = await this.textFileService.readText(this.newFile);
+			this.result.set(this.translationMigrationService.migrate(previousContent, newContent, this.threshold / 100));
+		} finally {
+			this.isMigrating.set(false);
+		}
+	}
+
+	/**
+	 * Count the matches of a kind
+	 * @param kind Kind of match
+	 * @returns Number of units matched this way
+	 */
+	countMatches(kind: string): number {
+		return this.result()?.matches.filter(match => match.kind === kind).length ?? 0;
+	}
+
+	/**
+	 * Get the translation key describing a replacement error
+	 * @param reason Reason of the error, e.g. "line-changed"
+	 * @returns The translation key, e.g. "REPLACEMENT_LINE_CHANGED"
+	 */
+	getReplacementErrorKey(reason: ReplacementErrorReason): string {
+		return `REPLACEMENT_${reason.toUpperCase().replace(/-/g, '_')}`;
+	}
+
+	downloadMigratedFile(): void {
+		const result = this.result();
+		if (!result || !this.newFile) {
+			return;
+		}
+
+		saveAs(this.translationProcessorService.generateTranslationFile(result.content), `migrated_${this.newFile.name}`);
+	}
+}
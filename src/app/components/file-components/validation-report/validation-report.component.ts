@@ -0,0 +1,31 @@
+import {Component, EventEmitter, Input, Output} from '@angular/core';
+import {CommonModule} from '@angular/common';
+import {TranslateModule} from '@ngx-translate/core';
+import {ValidationIssue, ValidationIssueReason} from '../../../models/validation-issue.model';
+
+@Component({
+	selector: 'app-validation-report',
+	standalone: true,
+	imports: [CommonModule, TranslateModule],
+	templateUrl: './validation-report.component.html',
+	styleUrl: './validation-report.component.scss'
+})
+export class ValidationReportComponent {
+	@Input() issues: ValidationIssue[] = [];
+	// True when the download is blocked by errors and can be forced
+	@Input() blocked: boolean = false;
+	@Output() downloadAnyway = new EventEmitter<void>();
+
+	/**
+	 * Get the translation key describing a validation issue
+	 * @param reason Reason of the issue, e.g. "unbalanced-tag"
+	 * @returns The translation key, e.g. "VALIDATION_UNBALANCED_TAG"
+	 */
+	getReasonKey(reason: ValidationIssueReason): string {
+		return `VALIDATION_${reason.toUpperCase().replace(/-/g, '_')}`;
+	}
+
+	countIssues(severity: string): number {
+		return this.issues.filter(issue => issue.severity === severity).length;
+	}
+}
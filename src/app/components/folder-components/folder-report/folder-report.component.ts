@@ -0,0 +1,39 @@
+import {Component, Input} from '@angular/core';
+import {CommonModule} from '@angular/common';
+import {TranslateModule} from '@ngx-translate/core';
+import {saveAs} from 'file-saver';
+import {CoverageCounts, FolderReport} from '../../../models/folder-report.model';
+import {FolderReportService} from '../../../services/folder-report.service';
+
+@Component({
+	selector: 'app-folder-report',
+	standalone: true,
+	imports: [CommonModule, TranslateModule],
+	templateUrl: './folder-report.component.html',
+	styleUrls: ['./folder-report.component.scss']
+})
+export class FolderReportComponent {
+	@Input() report: FolderReport | null = null;
+
+	constructor(private readonly folderReport: FolderReportService) {}
+
+	getCoverage(counts: CoverageCounts): number {
+		return this.folderReport.getCoverage(counts);
+	}
+
+	exportJson(): void {
+		if (!this.report) {
+			return;
+		}
+		const blob = new Blob([JSON.stringify(this.report, null, '\t')], {type: 'application/json;charset=utf-8'});
+		saveAs(blob, 'translation_report.json');
+	}
+
+	exportCsv(): void {
+		if (!this.report) {
+			return;
+		}
+		const blob = new Blob([this.folderReport.toCsv(this.report)], {type: 'text/csv;charset=utf-8'});
+		saveAs(blob, 'translation_report.csv');
+	}
+}
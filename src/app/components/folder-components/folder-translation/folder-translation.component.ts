@@ -1,26 +1,62 @@
 import {Component, Input} from '@angular/core';
 import {CommonModule} from '@angular/common';
-import {TranslateModule} from '@ngx-translate/core';
+import {MatSnackBar} from '@angular/material/snack-bar';
+import {TranslateModule, TranslateService} from '@ngx-translate/core';
 import {RenpyFileParserService} from '../../../services/renpy-file-parser.service';
 import {TranslationProcessorService} from '../../../services/translation-processor.service';
 import {TranslationApiService} from '../../../services/translation-api.service';
+import {TranslationTemplateService} from '../../../services/translation-template.service';
+import {TextFileService} from '../../../services/text-file.service';
+import {FolderReportService} from '../../../services/folder-report.service';
+import {TranslationValidatorService} from '../../../services/translation-validator.service';
 import {firstValueFrom} from 'rxjs';
 import JSZip from 'jszip';
 import {saveAs} from 'file-saver';
+import {TranslationUnit} from '../../../models/translation-unit.model';
+import {ReplacementError} from '../../../models/replacement-result.model';
+import {RetranslateOptions} from '../../../models/retranslate-options.model';
+import {RetranslatedLine} from '../../../models/retranslated-line.model';
+import {FolderReport} from '../../../models/folder-report.model';
+import {ValidationIssue} from '../../../models/validation-issue.model';
+import {TranslationOptions} from '../../../models/translation-options.model';
+import {TranslationResult} from '../../../models/translation-result.model';
+import {TextContext} from '../../../models/text-context.model';
+import {SourceLanguageReport} from '../../../models/source-language-report.model';
+import {RetranslateOptionsComponent} from '../../file-components/retranslate-options/retranslate-options.component';
+import {FolderReportComponent} from '../folder-report/folder-report.component';
 
 interface FolderFileMeta {
 	file: File;
 	relativePath: string;
+	// Path of the translated file in the archive, in the "tl" folder of the game for a generated template
+	outputPath: string;
+	// Translation file content, generated from the file when it is a game script
+	content: string;
+	// True if the content is a template generated from a game script
+	isTemplate: boolean;
+	unitsToTranslate: TranslationUnit[];
 	textsToTranslate: string[];
+	languages: string[];
 	charCount: number;
 	status: 'pending' | 'skipped' | 'partial' | 'translated' | 'error';
+	// Number of translated lines whose tags or interpolations were lost
+	placeholderWarnings?: number;
+	// Source languages detected by the API in the translated lines
+	sourceLanguageReport?: SourceLanguageReport;
+	// Translations that could not be written back to their target line
+	replacementErrors?: ReplacementError[];
+	// Errors and warnings of the translated file
+	validationIssues?: ValidationIssue[];
 	error?: string;
 }
 
+// File of the archive listing the existing translations overwritten by a retranslation
+const RETRANSLATED_LINES_FILE_NAME = 'retranslated_lines.json';
+
 @Component({
 	selector: 'app-folder-translation',
 	standalone: true,
-	imports: [CommonModule, TranslateModule],
+	imports: [CommonModule, TranslateModule, RetranslateOptionsComponent, FolderReportComponent],
 	templateUrl: './folder-translation.component.html',
 	styleUrls: ['./folder-translation.component.scss']
 })
@@ -29,6 +65,7 @@ export class FolderTranslationComponent {
 	@Input() selectedApi: string = '';
 	@Input() apiKey: string = '';
 	@Input() targetLanguage: string = '';
+	@Input() translationOptions: TranslationOptions = {};
 
 	isScanning = false;
 	isTranslating = false;
@@ -37,11 +74,25 @@ export class FolderTranslationComponent {
 	overallMessage = '';
 
 	fileMetas: FolderFileMeta[] = [];
+	// Coverage, orphans and duplicates of the translation files found by the scan
+	report: FolderReport | null = null;
+	// Add the files with validation errors to the archive anyway
+	includeInvalidFiles = false;
+	// Which units are translated, existing translations included or not
+	retranslateOptions: RetranslateOptions = {scope: 'untranslated', fromLine: 1, toLine: 1};
+	// Existing translations overwritten during the folder translation, by file path
+	private retranslatedLines: Record<string, RetranslatedLine[]> = {};
 
 	constructor(
+		private readonly snackBar: MatSnackBar,
+		private readonly translateService: TranslateService,
 		private readonly renpyFileParser: RenpyFileParserService,
 		private readonly translationProcessor: TranslationProcessorService,
-		private readonly translationApi: TranslationApiService
+		private readonly translationApi: TranslationApiService,
+		private readonly translationTemplate: TranslationTemplateService,
+		private readonly textFile: TextFileService,
+		private readonly folderReport: FolderReportService,
+		private readonly translationValidator: TranslationValidatorService
 	) {}
 
 	private getRelativePath(f: File): string {
@@ -51,48 +102,188 @@ export class FolderTranslationComponent {
 	async preScanFolder(): Promise<void> {
 		this.isScanning = true;
 		this.scanDone = false;
+		this.overallMessage = '';
 		this.fileMetas = [];
+		this.report = null;
 		const metas: FolderFileMeta[] = [];
+		const language = this.translationTemplate.getRenpyLanguage(this.targetLanguage || 'template');
+
+		const contents = await this.readFiles();
+		const templates = this.generateTemplates(contents, language);
 
 		for (const file of this.files) {
-			try {
-				const text = await file.text();
-				const textsToTranslate = this.renpyFileParser.extractLines(text);
-				const charCount = this.translationApi.calculateCharacterCount(this.selectedApi, textsToTranslate);
-				metas.push({
-					file,
-					relativePath: this.getRelativePath(file),
-					textsToTranslate,
-					charCount,
-					status: 'pending'
-				});
-			} catch (e: any) {
+			const content = contents.get(file);
+			if (content === undefined) {
 				metas.push({
 					file,
 					relativePath: this.getRelativePath(file),
+					outputPath: this.getRelativePath(file),
+					content: '',
+					isTemplate: false,
+					unitsToTranslate: [],
 					textsToTranslate: [],
+					languages: [],
 					charCount: 0,
 					status: 'error',
-					error: e?.message || 'read failed'
+					error: 'read failed'
 				});
+				continue;
 			}
+
+			const text = templates.get(file) ?? content;
+			const unitsToTranslate = this.renpyFileParser.selectUnits(this.renpyFileParser.parseUnits(text), this.retranslateOptions);
+			const textsToTranslate = unitsToTranslate.map(unit => unit.sourceText);
+			const charCount = this.translationApi.calculateCharacterCount(this.selectedApi, textsToTranslate);
+			const relativePath = this.getRelativePath(file);
+			metas.push({
+				file,
+				relativePath,
+				outputPath: templates.has(file) ? this.translationTemplate.getTemplatePath(relativePath, language) : relativePath,
+				content: text,
+				isTemplate: templates.has(file),
+				unitsToTranslate,
+				textsToTranslate,
+				languages: this.renpyFileParser.detectLanguages(text),
+				charCount,
+				status: 'pending'
+			});
 		}
 
 		// Only keep .rpy files safeguard
 		this.fileMetas = metas.filter(m => m.file.name.toLowerCase().endsWith('.rpy'));
+		this.report = this.folderReport.buildReport(
+			this.fileMetas
+				.filter(m => contents.has(m.file))
+				.map(m => ({path: m.relativePath, content: contents.get(m.file)!}))
+		);
 		this.scanDone = true;
 		this.isScanning = false;
 	}
 
-	private remainingFromUsage(usage: any): number {
-		if (this.selectedApi === 'google-free') {
-			const monthlyRemaining = Math.max(0, (usage.character_limit || 0) - (usage.character_count || 0));
-			const weeklyRemaining = Math.max(0, (usage.weekly_limit || monthlyRemaining) - (usage.weekly_count || 0));
-			const dailyRemaining = Math.max(0, (usage.daily_limit || weeklyRemaining) - (usage.daily_count || 0));
-			return Math.min(monthlyRemaining, weeklyRemaining, dailyRemaining);
+	/**
+	 * Scan the folder again when the retranslate options change, since they change the units to translate
+	 * @param options The new retranslate options
+	 */
+	onRetranslateOptionsChange(options: RetranslateOptions): void {
+		this.retranslateOptions = options;
+		if (this.scanDone) {
+			this.preScanFolder().catch(e => {
+				console.error('Error scanning the folder', e);
+				this.isScanning = false;
+				this.overallMessage = e?.message || 'scan failed';
+			});
+		}
+	}
+
+	/**
+	 * Read the content of every file of the folder
+	 * @returns The content of each file, files that could not be read are missing
+	 */
+	private async readFiles(): Promise<Map<File, string>> {
+		const contents = new Map<File, string>();
+		for (const file of this.files) {
+			try {
+				contents.set(file, await this.textFile.readText(file));
+			} catch (e: any) {
+				console.error(`Error reading ${this.getRelativePath(file)}`, e);
+			}
+		}
+		return contents;
+	}
+
+	/**
+	 * Generate the translation templates of the game scripts of the folder
+	 * All scripts are generated together so that identifiers and strings are not duplicated across files
+	 * @param contents The content of each file
+	 * @param language Ren'Py language identifier of the templates
+	 * @returns The template of each game script
+	 */
+	private generateTemplates(contents: Map<File, string>, language: string): Map<File, string> {
+		const sourceFiles = [...contents.keys()].filter(file => this.translationTemplate.isSourceScript(contents.get(file)!));
+		const templates = this.translationTemplate.generateTemplates(
+			sourceFiles.map(file => ({path: this.getRelativePath(file), content: contents.get(file)!})),
+			language
+		);
+		return new Map(sourceFiles.map((file, i) => [file, templates[i].content]));
+	}
+
+	/**
+	 * Translate the texts of a file
+	 * @param texts Texts to translate
+	 * @param contexts Speaker and surrounding dialogue of each text
+	 * @returns The translation result, rejected with the error of the API when it failed
+	 */
+	private async translateTexts(texts: string[], contexts: TextContext[]): Promise<TranslationResult> {
+		const result = await firstValueFrom(
+			this.translationApi.translateTexts(this.selectedApi, texts, this.targetLanguage, this.apiKey, this.translationOptions, contexts)
+		);
+		if (result.error) {
+			console.error(`Translation error: ${result.error}`);
+			this.snackBar.open(this.translateService.instant('TRANSLATION_ERROR'), this.translateService.instant('CLOSE'), {
+				duration: 3000,
+			});
+			throw new Error(result.error);
+		}
+		return result;
+	}
+
+	/**
+	 * Write the translations of a file and add it to the archive
+	 * @param zip The archive of translated files
+	 * @param meta The file being translated
+	 * @param fileText The translation file content
+	 * @param units The translated units
+	 * @param translated The translations, in the same order as the units
+	 * @returns True if the file was added, false if no translation could be written or if the translated file
+	 * has validation errors and invalid files are not included (the file is then in error)
+	 */
+	private addTranslatedFile(zip: JSZip, meta: FolderFileMeta, fileText: string, units: TranslationUnit[], translated: string[]): boolean {
+		const result = this.translationProcessor.replaceLines(fileText, units, translated);
+		meta.replacementErrors = result.errors;
+
+		if (!result.filledCount && units.length) {
+			meta.status = 'error';
+			meta.error = result.errors[0]?.reason ?? 'replace failed';
+			return false;
+		}
+
+		meta.validationIssues = this.translationValidator.validate(fileText, result.content, units);
+		if (this.translationValidator.hasErrors(meta.validationIssues) && !this.includeInvalidFiles) {
+			meta.status = 'error';
+			meta.error = 'validation';
+			return false;
+		}
+
+		zip.file(meta.outputPath, result.content);
+
+		// Keep the overwritten translations for comparison
+		const retranslated = units
+			.map((unit, i) => ({
+				lineNumber: unit.targetLineIndex + 1,
+				sourceText: unit.sourceText,
+				previousTranslation: unit.existingTranslation,
+				translation: translated[i] ?? ''
+			}))
+			.filter(line => line.previousTranslation);
+		if (retranslated.length) {
+			this.retranslatedLines[meta.outputPath] = retranslated;
 		}
-		// DeepL free: monthly remaining only
-		return Math.max(0, (usage.character_limit || 0) - (usage.character_count || 0));
+		return true;
+	}
+
+	onIncludeInvalidFilesChange(event: Event): void {
+		this.includeInvalidFiles = (event.target as HTMLInputElement).checked;
+	}
+
+	/**
+	 * Describe the source languages detected in a translated file
+	 * @param meta The file
+	 * @returns The languages with their line count, e.g. "EN 120, FR 3"
+	 */
+	getDetectedLanguages(meta: FolderFileMeta): string {
+		return (meta.sourceLanguageReport?.languages ?? [])
+			.map(detected => `${detected.language.toUpperCase()} ${detected.count}`)
+			.join(', ');
 	}
 
 	async translateFolder(): Promise<void> {
@@ -109,10 +300,10 @@ export class FolderTranslationComponent {
 
 		// Fetch usage
 		const usage = await firstValueFrom(this.translationApi.fetchApiUsage(this.selectedApi, this.apiKey));
-		let remaining = this.remainingFromUsage(usage);
+		let remaining = this.translationApi.getRemainingCharacters(usage);
 
-		// Google per-file hard cap: 5000
-		const googleFileCap = (this.selectedApi === 'google-free') ? (usage.file_char_limit || 5000) : Number.MAX_SAFE_INTEGER;
+		// Per-file hard cap of the providers limiting the characters of a request
+		const fileCap = usage.file_char_limit || Number.MAX_SAFE_INTEGER;
 
 		// Sort by ascending charCount
 		const candidates = [...this.fileMetas]
@@ -120,12 +311,13 @@ export class FolderTranslationComponent {
 			.sort((a, b) => a.charCount - b.charCount);
 
 		const zip = new JSZip();
+		this.retranslatedLines = {};
 		let processed = 0;
 		let partialUsed = false;
 
 		for (const meta of candidates) {
-			// Skip if over Google per-file cap
-			if (meta.charCount > googleFileCap && this.selectedApi === 'google-free') {
+			// Skip if over the per-file cap
+			if (meta.charCount > fileCap) {
 				meta.status = 'skipped';
 				processed++;
 				this.progress = Math.round((processed / candidates.length) * 100);
@@ -140,19 +332,22 @@ export class FolderTranslationComponent {
 			}
 
 			try {
-				const fileText = await meta.file.text();
-				const linesToFill = this.renpyFileParser.findLinesToFill(fileText);
+				const fileText = meta.content;
+				const contexts = this.renpyFileParser.getTextContexts(
+					this.renpyFileParser.parseUnits(fileText),
+					meta.unitsToTranslate,
+					this.translationOptions.contextWindow ?? 0
+				);
 
 				if (meta.charCount <= remaining) {
 					// Full translate
-					const translationResult = await firstValueFrom(
-						this.translationApi.translateTexts(this.selectedApi, meta.textsToTranslate, this.targetLanguage, this.apiKey)
-					);
+					const translationResult = await this.translateTexts(meta.textsToTranslate, contexts);
 					const translated = translationResult.translatedTexts;
-					const filled = this.translationProcessor.createFilledLines(linesToFill, translated);
-					const replaced = this.translationProcessor.replaceLines(fileText, filled, (l: string) => this.renpyFileParser.extractCommand(l));
-					zip.file(meta.relativePath, replaced);
-					meta.status = 'translated';
+					meta.placeholderWarnings = translationResult.placeholderWarnings?.length ?? 0;
+					meta.sourceLanguageReport = translationResult.sourceLanguageReport;
+					if (this.addTranslatedFile(zip, meta, fileText, meta.unitsToTranslate, translated)) {
+						meta.status = 'translated';
+					}
 					remaining -= meta.charCount;
 				} else if (partialUsed) {
 					// Should not reach due to earlier remaining check, but keep for safety
@@ -167,15 +362,14 @@ export class FolderTranslationComponent {
 						count++;
 					}
 					const partialTexts = meta.textsToTranslate.slice(0, count);
-					const partialResult = await firstValueFrom(
-						this.translationApi.translateTexts(this.selectedApi, partialTexts, this.targetLanguage, this.apiKey)
-					);
+					const partialResult = await this.translateTexts(partialTexts, contexts.slice(0, count));
 					const translated = partialResult.translatedTexts;
-					const partialLinesToFill = linesToFill.slice(0, count);
-					const filled = this.translationProcessor.createFilledLines(partialLinesToFill, translated);
-					const replaced = this.translationProcessor.replaceLines(fileText, filled, (l: string) => this.renpyFileParser.extractCommand(l));
-					zip.file(meta.relativePath, replaced);
-					meta.status = 'partial';
+					meta.placeholderWarnings = partialResult.placeholderWarnings?.length ?? 0;
+					meta.sourceLanguageReport = partialResult.sourceLanguageReport;
+					const partialUnits = meta.unitsToTranslate.slice(0, count);
+					if (this.addTranslatedFile(zip, meta, fileText, partialUnits, translated)) {
+						meta.status = 'partial';
+					}
 					remaining = 0;
 					partialUsed = true;
 					// From now on, all others will be skipped due to remaining==0 (per user rule)
@@ -191,6 +385,10 @@ export class FolderTranslationComponent {
 
 		// Add untouched/errored files as original content? Requirement says: "will give back a folder (if a folder was given)" — typically expected to include only translated outputs. We'll include translated/partial files; skipped remain absent.
 
+		if (Object.keys(this.retranslatedLines).length) {
+			zip.file(RETRANSLATED_LINES_FILE_NAME, JSON.stringify(this.retranslatedLines, null, '\t'));
+		}
+
 		// Generate zip
 		const zipNameTs = new Date().toISOString().replaceAll(':', '-').replaceAll('.', '-');
 		const zipName = `translations_${zipNameTs}.zip`;
@@ -1,9 +1,18 @@
+import {Formality} from '../models/formality.model';
+
 // DeepL API limits
 export const DEEPL_FREE_CHAR_LIMIT = 500000; // 500,000 characters per month for DeepL API Free
 export const DEEPL_REQUEST_SIZE_LIMIT = 128 * 1024; // 128 KiB (128*1024 bytes)
 export const DEEPL_HEADER_SIZE_LIMIT = 16 * 1024; // 16 KiB (16*1024 bytes)
-export const DEEPL_API_URL = '/deepl-api/v2/translate'; // Path to the proxy
-export const DEEPL_USAGE_URL = '/deepl-api/v2/usage'; // Path to the usage endpoint
+export const DEEPL_FREE_API_BASE_URL = '/deepl-api/v2'; // Path to the proxy of api-free.deepl.com
+export const DEEPL_PRO_API_BASE_URL = '/deepl-pro-api/v2'; // Path to the proxy of api.deepl.com
+export const DEEPL_FREE_KEY_SUFFIX = ':fx'; // DeepL API Free keys end with this suffix
+export const UNLIMITED_CHAR_LIMIT = 1000000000000; // Limit reported by DeepL API Pro accounts without cost control
+export const DEEPL_FORMALITIES: Formality[] = ['default', 'more', 'less', 'prefer_more', 'prefer_less'];
+export const DEEPL_CONTEXT_WINDOW = 3; // Dialogue lines sent as context before and after the translated lines
+export const DEEPL_MAX_CONTEXT_WINDOW = 10;
+export const DEEPL_MAX_CONCURRENT_REQUESTS = 4; // Requests sent at the same time when lines are grouped by scene
+export const DEEPL_PRO_PRICE_PER_MILLION_CHARS = 20; // EUR per million characters for DeepL API Pro, on top of the monthly fee
 
 // Google Translate API limits (manually set)
 export const GOOGLE_TRANSLATE_CHAR_LIMIT = 500000; // 500,000 characters per month
@@ -14,3 +23,33 @@ export const GOOGLE_TRANSLATE_FILE_CHAR_LIMIT = 5000; // 5,000 characters per fi
 export const GOOGLE_TRANSLATE_API_URL = 'https://translate.googleapis.com/translate_a/single';
 export const GOOGLE_TRANSLATE_USAGE_URL = 'https://translate.googleapis.com/translate_a/l';
 export const GOOGLE_TRANSLATE_LOCAL_STORAGE_KEY = 'google_translate_usage';
+
+// Google Cloud Translation API (Basic, v2), billed per character
+export const GOOGLE_CLOUD_API_URL = 'https://translation.googleapis.com/language/translate/v2';
+export const GOOGLE_CLOUD_MAX_SEGMENTS = 128; // Texts per request
+export const GOOGLE_CLOUD_MAX_REQUEST_CHARS = 5000; // Recommended maximum of characters per request
+export const GOOGLE_CLOUD_PRICE_PER_MILLION_CHARS = 20; // USD per million characters, beyond the free tier
+export const GOOGLE_CLOUD_LOCAL_STORAGE_KEY = 'google_cloud_translation_usage';
+
+// LibreTranslate, self-hosted or compatible servers
+export const LIBRETRANSLATE_DEFAULT_URL = 'http://localhost:5000'; // Default address of a local instance
+export const LIBRETRANSLATE_MAX_SEGMENTS = 50; // Texts per request
+export const LIBRETRANSLATE_MAX_REQUEST_CHARS = 5000; // Characters per request, servers may limit the text size
+export const LIBRETRANSLATE_LOCAL_STORAGE_KEY = 'libretranslate_settings';
+
+// OpenAI-compatible chat completions API, e.g. OpenAI, a local llama.cpp or Ollama server
+export const LLM_DEFAULT_URL = 'http://localhost:11434/v1'; // Default address of a local Ollama server
+export const LLM_MAX_LINES_PER_REQUEST = 20; // Lines translated in a single answer
+export const LLM_CHARS_PER_TOKEN = 4; // Rough average, for estimates before translating
+export const LLM_SETTINGS_LOCAL_STORAGE_KEY = 'llm_settings';
+export const LLM_USAGE_LOCAL_STORAGE_KEY = 'llm_usage';
+// Variables replaced in the prompt templates
+export const LLM_PROMPT_VARIABLES = ['sourceLanguage', 'targetLanguage', 'glossary', 'context', 'lines'];
+export const LLM_DEFAULT_SYSTEM_PROMPT = `You translate the dialogue and menus of a visual novel made with Ren'Py from {{sourceLanguage}} to {{targetLanguage}}.
+Keep the tone and the voice of each speaker. Lines of the same speaker stay consistent.
+Keep every XML tag such as <x i="0"/> exactly as it is, where it belongs in the translation. Never translate, add or remove tags.
+{{glossary}}
+Answer with a JSON object only, without any comment: {"translations": [{"id": <id of the line>, "text": "<translation>"}]}, with one entry for every line.`;
+export const LLM_DEFAULT_USER_PROMPT = `{{context}}
+Lines to translate, with their speaker when known:
+{{lines}}`;
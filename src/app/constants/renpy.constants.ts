@@ -0,0 +1,49 @@
+// Ren'Py translation file headers
+// Strings block header, e.g. "translate french strings:"
+export const RENPY_STRINGS_HEADER_REGEX = /^translate\s+(\w+)\s+strings\s*:/;
+// Dialogue block header, e.g. "translate french start_a170b500:" (python and style blocks are not dialogue)
+export const RENPY_DIALOGUE_HEADER_REGEX = /^translate\s+(\w+)\s+(?!strings\s*:|python\s*:|style\s)([\w.]+)\s*:/;
+// Any translate statement starting a line
+export const RENPY_TRANSLATE_STATEMENT_REGEX = /^translate\s/;
+// Translate blocks holding no text to translate, e.g. "translate french python:" or "translate french style default:"
+export const RENPY_UNTRANSLATED_BLOCK_REGEX = /^translate\s+\w+\s+(?:python\s*:|style\s)/;
+// Source file comment preceding a dialogue block, e.g. "# game/script.rpy:42"
+export const RENPY_SOURCE_COMMENT_PREFIX = '# game/';
+// Generated dialogue block identifier: the label, the digest of the block and a suffix for repeated blocks,
+// e.g. "start_a170b500", "chapter_1_intro_a170b500_1" or "a170b500" before the first label
+export const RENPY_GENERATED_ID_REGEX = /^(?:(\w+)_)?[0-9a-f]{8}(?:_\d+)?$/;
+
+// Parts of a text that must survive machine translation untouched:
+// text tags ({b}, {/b}, {w=0.5}), interpolations ([player_name]), "%(name)s" formats and line breaks.
+// Doubled "{{" and "[[" are escaped brackets and are left to the translator.
+export const RENPY_PROTECTED_TEXT_REGEX = /\{\{|\[\[|\{[^{}]*\}|\[[^[\]]*\]|%\([^)]+\)[-#0 +]*\d*(?:\.\d+)?[a-zA-Z]|\n/g;
+
+// Statements that may contain string literals but are not dialogue (voice files, music, images...)
+export const RENPY_NON_DIALOGUE_STATEMENTS = [
+	'$', 'call', 'camera', 'default', 'define', 'hide', 'image', 'jump', 'nvl', 'pause', 'play',
+	'python', 'queue', 'renpy', 'return', 'scene', 'show', 'stop', 'voice', 'window', 'with'
+];
+
+// Source scripts
+// Label statement, e.g. "label start:" or "label .local_name(arg):"
+export const RENPY_LABEL_REGEX = /^label\s+([\w.]+)/;
+// Explicit translation identifier of a say statement, e.g. 'e "Hello" id start_a170b500'
+export const RENPY_SAY_ID_REGEX = /(?:^|\s)id\s+(\w+)/;
+// Text preceding the literal of a translatable string call, e.g. '_("Start")' or '__("Start")'
+export const RENPY_STRING_CALL_REGEX = /(?:^|[^\w.])__?\(\s*$/;
+// Statements translated together with the say statement that follows them
+export const RENPY_TRANSLATABLE_STATEMENTS = ['voice', 'nvl clear'];
+// Blocks inside which say statements are still dialogue
+export const RENPY_SAY_BLOCKS = ['label', 'menu', 'if', 'elif', 'else', 'while'];
+
+// Translation migration
+// Minimum source text similarity (0 to 1) for a previous translation to be carried over as a fuzzy match
+export const MIGRATION_SIMILARITY_THRESHOLD = 0.75;
+// Comment written above the statements filled from a fuzzy match, followed by the similarity
+export const MIGRATION_FUZZY_COMMENT = 'fuzzy';
+
+// Post-translation validation
+// Text tags that are not closed, e.g. "{w=0.5}" or "{image=heart.png}"
+export const RENPY_SELF_CLOSING_TAGS = ['w', 'p', 'nw', 'fast', 'done', 'clear', 'image', 'space', 'vspace'];
+// Percent sign of a raw string body that is neither doubled nor a "%(name)s" format
+export const RENPY_STRAY_PERCENT_REGEX = /%(?!\()/;
@@ -1,6 +1,11 @@
+import {TranslationOptions} from './translation-options.model';
+
 export interface ApiDetails {
 	api: string;
 	name: string;
 	key?: string;
 	language?: string;
+	options?: TranslationOptions;
+	// Monthly character limit set by the user, for the providers with a billing limit
+	characterLimit?: number;
 }
@@ -4,6 +4,8 @@ export interface ApiUsageResult {
 	weekly_limit?: number;
 	daily_limit?: number;
 	file_char_limit?: number;
+	weekly_count?: number;
+	daily_count?: number;
 	error?: string;
 	retryCount?: number;
 	previousCharacterCount?: number;
@@ -0,0 +1,14 @@
+export interface ChatCompletionResponse {
+	choices: {
+		message: {
+			content: string | null;
+		};
+		finish_reason?: string;
+	}[];
+	// Not reported by every server
+	usage?: {
+		prompt_tokens: number;
+		completion_tokens: number;
+		total_tokens: number;
+	};
+}
@@ -0,0 +1,11 @@
+// Glossary as returned by the DeepL API
+export interface DeepLGlossary {
+	glossary_id: string;
+	name: string;
+	// False until DeepL can use the glossary for translations
+	ready: boolean;
+	source_lang: string;
+	target_lang: string;
+	creation_time: string;
+	entry_count: number;
+}
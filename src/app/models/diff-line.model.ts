@@ -0,0 +1,10 @@
+export type DiffLineKind = 'unchanged' | 'removed' | 'added';
+
+export interface DiffLine {
+	kind: DiffLineKind;
+	text: string;
+	// Line number in the original file (1-based), absent for added lines
+	originalLineNumber?: number;
+	// Line number in the modified file (1-based), absent for removed lines
+	modifiedLineNumber?: number;
+}
@@ -0,0 +1,42 @@
+export interface CoverageCounts {
+	translated: number;
+	untranslated: number;
+	// Units whose block or old string no longer matches the game scripts
+	orphaned: number;
+	// Translated strings also translated differently in another file
+	duplicates: number;
+}
+
+export interface FileCoverage extends CoverageCounts {
+	// Path of the translation file in the folder
+	path: string;
+	// Ren'Py language identifiers of the file
+	languages: string[];
+}
+
+export interface OrphanedEntry {
+	path: string;
+	// Line number of the target statement (1-based)
+	lineNumber: number;
+	// Block identifier, e.g. "start_a170b500" or "strings"
+	blockId: string;
+	sourceText: string;
+}
+
+export interface DuplicateString {
+	language: string;
+	sourceText: string;
+	// Every translation of the source text, with the file it comes from
+	translations: { path: string; translation: string }[];
+}
+
+export interface FolderReport {
+	files: FileCoverage[];
+	total: CoverageCounts;
+	// False when the folder has no game script, orphans can then not be detected
+	hasSources: boolean;
+	orphans: OrphanedEntry[];
+	duplicates: DuplicateString[];
+	// Translation files without any translated line
+	uncoveredFiles: string[];
+}
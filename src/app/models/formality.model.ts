@@ -0,0 +1,8 @@
+// Register of the translations, as DeepL names it: "prefer_" values fall back to the default when the language has none
+export type Formality = 'default' | 'more' | 'less' | 'prefer_more' | 'prefer_less';
+
+export interface SpeakerFormality {
+	// Speaker as written before the text in the script, e.g. "e" or "Eileen"
+	speaker: string;
+	formality: Formality;
+}
@@ -0,0 +1,4 @@
+export interface GlossaryEntry {
+	source: string;
+	target: string;
+}
@@ -0,0 +1,5 @@
+// Language pair DeepL accepts for glossaries, with lowercase codes
+export interface GlossaryLanguagePair {
+	source_lang: string;
+	target_lang: string;
+}
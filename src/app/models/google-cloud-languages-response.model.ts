@@ -0,0 +1,9 @@
+export interface GoogleCloudLanguagesResponse {
+	data: {
+		languages: {
+			language: string;
+			// In the display language given as "target"
+			name: string;
+		}[];
+	};
+}
@@ -0,0 +1,9 @@
+export interface GoogleCloudResponse {
+	data: {
+		translations: {
+			translatedText: string;
+			// Only when no source language is given
+			detectedSourceLanguage?: string;
+		}[];
+	};
+}
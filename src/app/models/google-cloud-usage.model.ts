@@ -0,0 +1,8 @@
+// Characters sent to Google Cloud Translation, counted locally: the API does not report usage to API keys
+export interface GoogleCloudUsage {
+	// Billing month of the count, e.g. "2025-01"
+	month: string;
+	character_count: number;
+	// Monthly limit set by the user, 0 for none
+	character_limit: number;
+}
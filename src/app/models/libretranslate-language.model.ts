@@ -0,0 +1,7 @@
+export interface LibreTranslateLanguage {
+	// As the server writes it, e.g. "zh-Hans"
+	code: string;
+	name: string;
+	// Codes of the languages this one can be translated to
+	targets: string[];
+}
@@ -0,0 +1,11 @@
+export interface LibreTranslateResponse {
+	// An array when an array of texts is sent
+	translatedText: string | string[];
+	// Only when the source language is detected
+	detectedLanguage?: LibreTranslateDetectedLanguage | LibreTranslateDetectedLanguage[];
+}
+
+export interface LibreTranslateDetectedLanguage {
+	confidence: number;
+	language: string;
+}
@@ -0,0 +1,7 @@
+// Server used by the LibreTranslate provider and characters sent to it, stored locally
+export interface LibreTranslateSettings {
+	baseUrl: string;
+	// Month of the count, e.g. "2025-01"
+	month: string;
+	character_count: number;
+}
@@ -0,0 +1,12 @@
+import {GlossaryEntry} from './glossary-entry.model';
+
+// Settings of the OpenAI-compatible provider, stored locally
+export interface LlmSettings {
+	baseUrl: string;
+	model: string;
+	// Prompt templates, with variables such as {{targetLanguage}}
+	systemPrompt: string;
+	userPrompt: string;
+	// Terms translated the same way in every line
+	glossary: GlossaryEntry[];
+}
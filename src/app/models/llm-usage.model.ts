@@ -0,0 +1,6 @@
+// Tokens used by the OpenAI-compatible provider, as reported by the API
+export interface LlmUsage {
+	// Month of the count, e.g. "2025-01"
+	month: string;
+	token_count: number;
+}
@@ -0,0 +1,15 @@
+export type PlaceholderStyle = 'xml' | 'token';
+
+export interface MaskedText {
+	// Text sent to the translation API, with protected parts replaced by placeholders
+	text: string;
+	// Protected parts, the placeholder index is the position in this array
+	placeholders: string[];
+}
+
+export interface PlaceholderWarning {
+	// Index of the text in the translated batch
+	index: number;
+	// Protected parts that could not be restored
+	missing: string[];
+}
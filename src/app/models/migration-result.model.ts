@@ -0,0 +1,28 @@
+import {ReplacementError} from './replacement-result.model';
+
+// How a previous translation was matched to a unit of the new file:
+// - id: same block identifier and same position in the block (or same "old" text in strings blocks)
+// - source: identical source text in another block
+// - fuzzy: similar source text, to be reviewed
+export type MigrationMatchKind = 'id' | 'source' | 'fuzzy';
+
+export interface MigrationMatch {
+	// Line number of the target statement in the new file (1-based)
+	lineNumber: number;
+	kind: MigrationMatchKind;
+	// Similarity of the source texts, from 0 to 1
+	similarity: number;
+	sourceText: string;
+	previousSourceText: string;
+	translation: string;
+}
+
+export interface MigrationResult {
+	// The new file with the previous translations carried over
+	content: string;
+	matches: MigrationMatch[];
+	// Units of the new file left without translation
+	unmatchedCount: number;
+	// Matched translations that could not be written
+	errors: ReplacementError[];
+}
@@ -0,0 +1,4 @@
+// Response of the "/models" endpoint, e.g. { data: [{ id: 'llama3.1', object: 'model' }, ...] }
+export interface ModelListResponse {
+	data?: { id?: unknown }[];
+}
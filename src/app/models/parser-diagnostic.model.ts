@@ -0,0 +1,16 @@
+export type ParserDiagnosticReason =
+	'unrecognised-shape'
+	| 'unterminated-string'
+	| 'duplicate-old'
+	| 'orphan-new'
+	| 'mismatched-indentation';
+
+export interface ParserDiagnostic {
+	// Line number in the file (1-based)
+	lineNumber: number;
+	// Header of the block containing the line, e.g. "translate french start_a170b500:", empty outside blocks
+	header: string;
+	reason: ParserDiagnosticReason;
+	// Trimmed content of the line
+	line: string;
+}
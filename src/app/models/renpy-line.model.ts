@@ -0,0 +1,8 @@
+export interface RenpyLine {
+	// Index of the first physical line
+	index: number;
+	// Number of physical lines, more than one when a string literal spans several lines
+	lineCount: number;
+	// Physical lines joined with "\n"
+	text: string;
+}
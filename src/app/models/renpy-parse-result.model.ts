@@ -0,0 +1,9 @@
+import {ParserDiagnostic} from './parser-diagnostic.model';
+import {TranslationUnit} from './translation-unit.model';
+
+export interface RenpyParseResult {
+	// Translation units, including the ones already translated
+	units: TranslationUnit[];
+	// Problems found in the file, in order of appearance
+	diagnostics: ParserDiagnostic[];
+}
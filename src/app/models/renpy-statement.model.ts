@@ -0,0 +1,19 @@
+export interface RenpyStringLiteral {
+	// Index of the opening quote
+	start: number;
+	// Index just after the closing quote
+	end: number;
+	// Quote opening the literal: ", ', ` or their tripled form
+	quote: string;
+	// Decoded value of the literal
+	value: string;
+}
+
+export interface RenpyStatement {
+	// Speaker or command preceding the text (e.g. "e", "\"Eileen\"", "new"), empty for narration
+	command: string;
+	// Decoded text of the statement
+	text: string;
+	// Literal holding the text, positions are relative to the parsed line
+	literal: RenpyStringLiteral;
+}
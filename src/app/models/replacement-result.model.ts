@@ -0,0 +1,23 @@
+export type ReplacementErrorReason = 'count-mismatch' | 'duplicate-target' | 'line-out-of-range' | 'line-changed';
+
+export interface ReplacementError {
+	reason: ReplacementErrorReason;
+	// Line number of the target statement (1-based), absent for count mismatches
+	lineNumber?: number;
+	// Block identifier of the unit, e.g. "start_a170b500" or "strings"
+	blockId?: string;
+	// For count mismatches: number of units and number of translated lines
+	expected?: number;
+	actual?: number;
+}
+
+export interface ReplacementResult {
+	// The new file content, unchanged when the units and the translations could not be paired
+	content: string;
+	// Number of target statements filled
+	filledCount: number;
+	// Line number (1-based) of each target statement in the new content, in the same order as the units,
+	// undefined for the units that were not filled
+	lineNumbers: (number | undefined)[];
+	errors: ReplacementError[];
+}
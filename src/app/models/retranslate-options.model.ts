@@ -0,0 +1,13 @@
+// Which units are sent for translation:
+// - untranslated: only the units whose target is still empty (default)
+// - all: every unit, existing translations are overwritten
+// - range: every unit whose target line is between fromLine and toLine
+// - identical: the units whose translation is the same as the source text
+export type RetranslateScope = 'untranslated' | 'all' | 'range' | 'identical';
+
+export interface RetranslateOptions {
+	scope: RetranslateScope;
+	// Line numbers (1-based) bounding the blocks to retranslate, used by the 'range' scope
+	fromLine: number;
+	toLine: number;
+}
@@ -0,0 +1,8 @@
+export interface RetranslatedLine {
+	// Line number of the target statement (1-based)
+	lineNumber: number;
+	sourceText: string;
+	// Translation overwritten by the retranslation
+	previousTranslation: string;
+	translation: string;
+}
@@ -0,0 +1,13 @@
+import {TranslationUnit} from './translation-unit.model';
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ReviewItem {
+	unit: TranslationUnit;
+	// Text returned by the translation API
+	machineTranslation: string;
+	// Text written to the file, the machine translation unless edited
+	finalText: string;
+	// Rejected items are left as they were in the file
+	status: ReviewStatus;
+}
@@ -0,0 +1,19 @@
+export interface DetectedLanguageCount {
+	language: string;
+	count: number;
+}
+
+export interface SourceLanguageOutlier {
+	sourceText: string;
+	language: string;
+}
+
+// Source languages detected by the API in the translated lines, to spot mixed-language files
+export interface SourceLanguageReport {
+	// The most detected language, the file is mixed when others are detected
+	expectedLanguage: string;
+	// Most detected first
+	languages: DetectedLanguageCount[];
+	// Lines detected in another language than the expected one, regional variants aside
+	outliers: SourceLanguageOutlier[];
+}
@@ -1,4 +1,9 @@
+// Languages translated from, or translated to
+export type LanguageType = 'source' | 'target';
+
 export interface SupportedLanguage {
 	code: string;
 	name: string;
+	// The language has formal and informal registers, the formality setting applies to it
+	supportsFormality?: boolean;
 }
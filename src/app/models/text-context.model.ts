@@ -0,0 +1,10 @@
+// What surrounds a text in its file, used by the providers that translate better with it
+export interface TextContext {
+	// Speaker as written before the text, empty for narration and strings
+	speaker: string;
+	// Label of the dialogue block, null for strings which have no scene
+	scene: string | null;
+	// Source texts of the dialogue of the same scene around the text, in file order
+	before: string[];
+	after: string[];
+}
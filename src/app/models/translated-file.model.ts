@@ -0,0 +1,6 @@
+export interface TranslatedFile {
+	// File the translations were written into: the uploaded file, or the template generated from a game script
+	originalContent: string;
+	// File generated by the translation
+	content: string;
+}
@@ -0,0 +1,6 @@
+// Translation of a text returned by a provider
+export interface TranslatedText {
+	text: string;
+	// Language the API detected in the source text, e.g. "en", undefined when the API does not report it
+	detectedSourceLanguage?: string;
+}
@@ -0,0 +1,14 @@
+import {Formality, SpeakerFormality} from './formality.model';
+
+// Settings of a translation on top of the target language, ignored by the providers not supporting them
+export interface TranslationOptions {
+	// Language of the texts, detected by the API when undefined
+	sourceLang?: string;
+	// Glossary applied to the texts: DeepL requires the source language with it
+	glossaryId?: string;
+	// Formality of the lines whose speaker has no formality of its own
+	formality?: Formality;
+	speakerFormalities?: SpeakerFormality[];
+	// Dialogue lines of the same scene sent as context before and after the translated lines, 0 to send none
+	contextWindow?: number;
+}
@@ -0,0 +1,131 @@
+import {Observable} from 'rxjs';
+import {ApiUsageResult} from './api-usage-result.model';
+import {PlaceholderStyle} from './masked-text.model';
+import {LanguageType, SupportedLanguage} from './supported-language.model';
+import {TextContext} from './text-context.model';
+import {TranslatedText} from './translated-text.model';
+import {TranslationOptions} from './translation-options.model';
+
+// Whether the API key input is shown, and whether the provider can be used without a key
+export type ProviderAuth = 'required' | 'optional' | 'none';
+
+// Features a provider supports: the flags it leaves out are false
+export interface TranslationProviderCapabilities {
+	// How Ren'Py markup is protected in the texts sent to the API
+	placeholderStyle: PlaceholderStyle;
+	// The API reports usage with a delay: usage is checked again until the count changes
+	delayedUsage?: boolean;
+	// Glossaries of the account can be managed and applied to translations
+	glossaries?: boolean;
+	// The formality of the translations can be chosen, for the languages supporting it
+	formality?: boolean;
+	// Surrounding dialogue can be sent with the texts without being billed
+	context?: boolean;
+	// The API reports no quota: the monthly character limit is set by the user
+	billingLimit?: boolean;
+	// The API runs on a server chosen by the user, e.g. self-hosted
+	serverUrl?: boolean;
+	// A language model is prompted: its model, prompt templates and glossary are set by the user
+	promptTemplates?: boolean;
+}
+
+export interface TranslationProviderLabels {
+	// Translation keys
+	usage: string;
+	usageNote?: string;
+	limitExceeded: string;
+	// Shown after a translation, e.g. to explain that usage is updated with a delay
+	usageUpdated: string;
+	// What the usage counts when it is not characters, e.g. "TOKENS", and the label of the count of the lines to translate
+	unit?: string;
+	count?: string;
+}
+
+// Price of a pay-as-you-go plan, shown instead of a quota
+export interface TranslationProviderPricing {
+	pricePerMillionCharacters: number;
+	// ISO 4217 code, e.g. "EUR"
+	currency: string;
+}
+
+export interface TranslationProvider {
+	// Identifier of the provider, e.g. "deepl-free"
+	readonly id: string;
+	// Name of the service, e.g. "DeepL"
+	readonly name: string;
+	// Translation key of the plan appended to the name, e.g. "FREE"
+	readonly planKey?: string;
+	readonly auth: ProviderAuth;
+	readonly capabilities: TranslationProviderCapabilities;
+	readonly labels: TranslationProviderLabels;
+	readonly pricing?: TranslationProviderPricing;
+
+	/**
+	 * Fetch the languages the API translates from or to
+	 * @param apiKey The API key, empty when the provider needs none
+	 * @param type Source or target languages
+	 * @returns Observable of the languages, named as the API names them
+	 */
+	fetchLanguages(apiKey: string, type: LanguageType): Observable<SupportedLanguage[]>;
+
+	/**
+	 * Fetch the usage and the limits of the account
+	 * @param apiKey The API key, empty when the provider needs none
+	 * @param previousCharacterCount Count before the last translation, for providers with delayed usage
+	 * @param retryCount Number of checks already made since the last translation
+	 * @param maxRetryAttempts Maximum number of checks
+	 * @returns Observable of the usage
+	 */
+	fetchUsage(apiKey: string, previousCharacterCount: number, retryCount: number, maxRetryAttempts: number): Observable<ApiUsageResult>;
+
+	/**
+	 * Check if translating more characters would exceed a limit of the API
+	 * @param currentCount Current character count
+	 * @param additionalCount Character count of the texts to translate
+	 * @param characterLimit The character limit of the account
+	 * @returns Object with willExceedLimit and willExceedFileLimit flags
+	 */
+	checkWillExceedLimit(currentCount: number, additionalCount: number, characterLimit: number): { willExceedLimit: boolean, willExceedFileLimit: boolean };
+
+	/**
+	 * Count the characters the API bills for a batch of texts
+	 * @param texts Texts to translate
+	 * @returns Total character count, or an estimate of the usage unit of the provider, e.g. tokens
+	 */
+	calculateCharacterCount(texts: string[]): number;
+
+	/**
+	 * Translate texts whose Ren'Py markup is already masked
+	 * @param texts Masked texts
+	 * @param targetLang The target language code
+	 * @param apiKey The API key, empty when the provider needs none
+	 * @param options Source language, glossary and other settings, ignored when not supported
+	 * @param contexts Speaker and surrounding dialogue of each text, empty when unknown
+	 * @returns Observable of the translated texts with their detected source language, in the same order
+	 */
+	translateBatch(texts: string[], targetLang: string, apiKey: string, options: TranslationOptions, contexts: TextContext[]): Observable<TranslatedText[]>;
+
+	/**
+	 * Get the monthly character limit set by the user, for the providers with a billing limit
+	 * @returns Number of characters per month, 0 for no limit
+	 */
+	getCharacterLimit?(): number;
+
+	/**
+	 * Set the monthly character limit, for the providers with a billing limit
+	 * @param limit Number of characters per month, 0 for no limit
+	 */
+	setCharacterLimit?(limit: number): void;
+
+	/**
+	 * Get the URL of the server, for the providers on a server chosen by the user
+	 * @returns The URL, without a trailing slash
+	 */
+	getBaseUrl?(): string;
+
+	/**
+	 * Set the URL of the server, for the providers on a server chosen by the user
+	 * @param url The URL of the server
+	 */
+	setBaseUrl?(url: string): void;
+}
@@ -1,4 +1,11 @@
+import {PlaceholderWarning} from './masked-text.model';
+import {SourceLanguageReport} from './source-language-report.model';
+
 export interface TranslationResult {
 	translatedTexts: string[];
 	error?: string;
+	// Texts whose tags, interpolations or line breaks could not be restored after translation
+	placeholderWarnings?: PlaceholderWarning[];
+	// Source languages detected by the API, undefined when it reports none
+	sourceLanguageReport?: SourceLanguageReport;
 }
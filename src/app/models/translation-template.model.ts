@@ -0,0 +1,14 @@
+export interface TemplateSource {
+	// Path of the source script, e.g. "game/script.rpy"
+	path: string;
+	content: string;
+}
+
+export interface TranslationTemplate {
+	// Path of the source script the template was generated from
+	path: string;
+	// Generated "translate <language> ..." blocks
+	content: string;
+	dialogueCount: number;
+	stringCount: number;
+}
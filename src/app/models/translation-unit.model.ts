@@ -0,0 +1,24 @@
+export type TranslationUnitKind = 'dialogue' | 'strings';
+
+export interface TranslationUnit {
+	// Block identifier, e.g. "start_a170b500" for dialogue or "strings" for strings blocks
+	blockId: string;
+	kind: TranslationUnitKind;
+	// Ren'Py language identifier of the block, e.g. "french"
+	language: string;
+	sourceText: string;
+	// Speaker or command preceding the text (e.g. "e", "sh_i neutral", "new"), empty for narration
+	command: string;
+	// Index of the line receiving the translation
+	targetLineIndex: number;
+	// Number of physical lines of the target statement, more than one for multi-line strings
+	targetLineCount: number;
+	// True if the text is written as a triple-quoted string
+	tripleQuoted: boolean;
+	// Leading whitespace of the target line
+	indentation: string;
+	// Text already present on the target line, empty when the line still has to be translated
+	existingTranslation: string;
+	// Source file comment, e.g. "# game/script.rpy:42"
+	sourceComment: string;
+}
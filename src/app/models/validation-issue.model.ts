@@ -0,0 +1,23 @@
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationIssueReason =
+	'unit-count-changed'
+	| 'line-count-changed'
+	| 'invalid-statement'
+	| 'unescaped-quote'
+	| 'unbalanced-tag'
+	| 'missing-tag'
+	| 'missing-interpolation'
+	| 'unknown-interpolation'
+	| 'format-mismatch'
+	| 'stray-percent';
+
+export interface ValidationIssue {
+	// Errors break the game at runtime and block the download, warnings only lose markup
+	severity: ValidationSeverity;
+	reason: ValidationIssueReason;
+	// Line number in the translated file (1-based), absent for issues of the whole file
+	lineNumber?: number;
+	// Offending tag, interpolation or statement, or "<expected> → <actual>" for count changes
+	detail: string;
+}
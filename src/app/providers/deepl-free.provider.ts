@@ -0,0 +1,15 @@
+import {Injectable} from '@angular/core';
+import {DeepLProvider} from './deepl.provider';
+
+@Injectable({
+	providedIn: 'root'
+})
+export class DeepLFreeProvider extends DeepLProvider {
+	readonly id = 'deepl-free';
+	readonly planKey = 'FREE';
+	readonly labels = {
+		usage: 'DEEPL_API_USAGE',
+		limitExceeded: 'LIMIT_EXCEEDED_WARNING',
+		usageUpdated: 'USAGE_UPDATE_NOTICE'
+	};
+}
@@ -0,0 +1,22 @@
+import {Injectable} from '@angular/core';
+import {DEEPL_PRO_PRICE_PER_MILLION_CHARS} from '../constants/api.constants';
+import {DeepLProvider} from './deepl.provider';
+
+@Injectable({
+	providedIn: 'root'
+})
+export class DeepLProProvider extends DeepLProvider {
+	readonly id = 'deepl-pro';
+	readonly planKey = 'PRO';
+	readonly labels = {
+		usage: 'DEEPL_PRO_API_USAGE',
+		usageNote: 'DEEPL_PRO_USAGE_NOTE',
+		limitExceeded: 'COST_LIMIT_EXCEEDED_WARNING',
+		usageUpdated: 'USAGE_UPDATE_NOTICE'
+	};
+	// Characters are billed: the limit reported by /v2/usage is the cost control set on the account, if any
+	readonly pricing = {
+		pricePerMillionCharacters: DEEPL_PRO_PRICE_PER_MILLION_CHARS,
+		currency: 'EUR'
+	};
+}
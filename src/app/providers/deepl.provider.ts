@@ -0,0 +1,61 @@
+import {Injectable} from '@angular/core';
+import {Observable} from 'rxjs';
+import {map} from 'rxjs/operators';
+import {ApiUsageResult} from '../models/api-usage-result.model';
+import {LanguageType, SupportedLanguage} from '../models/supported-language.model';
+import {TextContext} from '../models/text-context.model';
+import {TranslatedText} from '../models/translated-text.model';
+import {TranslationOptions} from '../models/translation-options.model';
+import {
+	ProviderAuth,
+	TranslationProvider,
+	TranslationProviderCapabilities,
+	TranslationProviderLabels
+} from '../models/translation-provider.model';
+import {DeepLTranslationService} from '../services/deepl-translation.service';
+
+/**
+ * DeepL API, shared by the Free and the Pro plans
+ * Requests go to the API of the account the key belongs to, whichever plan is selected
+ */
+@Injectable()
+export abstract class DeepLProvider implements TranslationProvider {
+	abstract readonly id: string;
+	abstract readonly planKey: string;
+	abstract readonly labels: TranslationProviderLabels;
+	readonly name = 'DeepL';
+	readonly auth: ProviderAuth = 'required';
+	readonly capabilities: TranslationProviderCapabilities = {placeholderStyle: 'xml', delayedUsage: true, glossaries: true, formality: true, context: true};
+
+	constructor(protected readonly deepLTranslationService: DeepLTranslationService) {
+	}
+
+	fetchLanguages(apiKey: string, type: LanguageType): Observable<SupportedLanguage[]> {
+		return this.deepLTranslationService.getLanguages(apiKey, type);
+	}
+
+	fetchUsage(apiKey: string, previousCharacterCount: number, retryCount: number, maxRetryAttempts: number): Observable<ApiUsageResult> {
+		return this.deepLTranslationService.fetchApiUsageWithRetry(apiKey, previousCharacterCount, retryCount, maxRetryAttempts).pipe(
+			map(result => ({
+				...result,
+				willExceedLimit: false,
+				willExceedFileLimit: false
+			}))
+		);
+	}
+
+	checkWillExceedLimit(currentCount: number, additionalCount: number, characterLimit: number): { willExceedLimit: boolean, willExceedFileLimit: boolean } {
+		return {
+			willExceedLimit: this.deepLTranslationService.checkWillExceedLimit(currentCount, additionalCount, characterLimit).willExceedLimit,
+			willExceedFileLimit: false // DeepL doesn't have a file character limit
+		};
+	}
+
+	calculateCharacterCount(texts: string[]): number {
+		return this.deepLTranslationService.calculateCharacterCount(texts);
+	}
+
+	translateBatch(texts: string[], targetLang: string, apiKey: string, options: TranslationOptions, contexts: TextContext[]): Observable<TranslatedText[]> {
+		return this.deepLTranslationService.translateMultiple(texts, apiKey, targetLang, this.capabilities.placeholderStyle, options, contexts);
+	}
+}
@@ -0,0 +1,72 @@
+import {Injectable} from '@angular/core';
+import {Observable, of} from 'rxjs';
+import {ApiUsageResult} from '../models/api-usage-result.model';
+import {SupportedLanguage} from '../models/supported-language.model';
+import {TranslatedText} from '../models/translated-text.model';
+import {TranslationOptions} from '../models/translation-options.model';
+import {TranslationProvider} from '../models/translation-provider.model';
+import {GOOGLE_CLOUD_PRICE_PER_MILLION_CHARS, UNLIMITED_CHAR_LIMIT} from '../constants/api.constants';
+import {GoogleCloudTranslationService} from '../services/google-cloud-translation.service';
+
+/**
+ * Official Google Cloud Translation API, with an API key of a Google Cloud project
+ * The API reports no usage to API keys: characters are counted locally against the limit set by the user
+ */
+@Injectable({
+	providedIn: 'root'
+})
+export class GoogleCloudProvider implements TranslationProvider {
+	readonly id = 'google-cloud';
+	readonly name = 'Google Cloud Translation';
+	readonly auth = 'required';
+	readonly capabilities = {placeholderStyle: 'token', billingLimit: true} as const;
+	readonly labels = {
+		usage: 'GOOGLE_CLOUD_API_USAGE',
+		usageNote: 'GOOGLE_CLOUD_USAGE_NOTE',
+		limitExceeded: 'BILLING_LIMIT_EXCEEDED_WARNING',
+		usageUpdated: 'GOOGLE_CLOUD_USAGE_UPDATED'
+	};
+	readonly pricing = {
+		pricePerMillionCharacters: GOOGLE_CLOUD_PRICE_PER_MILLION_CHARS,
+		currency: 'USD'
+	};
+
+	constructor(private readonly googleCloudTranslationService: GoogleCloudTranslationService) {
+	}
+
+	fetchLanguages(apiKey: string): Observable<SupportedLanguage[]> {
+		return this.googleCloudTranslationService.getLanguages(apiKey);
+	}
+
+	fetchUsage(): Observable<ApiUsageResult> {
+		const usage = this.googleCloudTranslationService.getUsage();
+		return of({
+			character_count: usage.character_count,
+			character_limit: usage.character_limit || UNLIMITED_CHAR_LIMIT,
+			shouldRetry: false
+		});
+	}
+
+	checkWillExceedLimit(currentCount: number, additionalCount: number, characterLimit: number): { willExceedLimit: boolean, willExceedFileLimit: boolean } {
+		return {
+			willExceedLimit: currentCount + additionalCount > characterLimit,
+			willExceedFileLimit: false
+		};
+	}
+
+	calculateCharacterCount(texts: string[]): number {
+		return this.googleCloudTranslationService.calculateCharacterCount(texts);
+	}
+
+	translateBatch(texts: string[], targetLang: string, apiKey: string, options: TranslationOptions): Observable<TranslatedText[]> {
+		return this.googleCloudTranslationService.translateMultiple(texts, apiKey, targetLang, options.sourceLang);
+	}
+
+	getCharacterLimit(): number {
+		return this.googleCloudTranslationService.getUsage().character_limit;
+	}
+
+	setCharacterLimit(limit: number): void {
+		this.googleCloudTranslationService.setCharacterLimit(limit);
+	}
+}
@@ -0,0 +1,55 @@
+import {Injectable} from '@angular/core';
+import {Observable} from 'rxjs';
+import {map} from 'rxjs/operators';
+import {ApiUsageResult} from '../models/api-usage-result.model';
+import {LanguageType, SupportedLanguage} from '../models/supported-language.model';
+import {TranslatedText} from '../models/translated-text.model';
+import {TranslationOptions} from '../models/translation-options.model';
+import {TranslationProvider} from '../models/translation-provider.model';
+import {GoogleTranslateService} from '../services/google-translate.service';
+
+@Injectable({
+	providedIn: 'root'
+})
+export class GoogleFreeProvider implements TranslationProvider {
+	readonly id = 'google-free';
+	readonly name = 'Google Translate';
+	readonly planKey = 'FREE';
+	readonly auth = 'none';
+	readonly capabilities = {placeholderStyle: 'token'} as const;
+	readonly labels = {
+		usage: 'GOOGLE_API_USAGE',
+		usageNote: 'GOOGLE_USAGE_NOTE',
+		limitExceeded: 'GOOGLE_LIMIT_EXCEEDED_WARNING',
+		usageUpdated: 'GOOGLE_USAGE_UPDATED'
+	};
+
+	constructor(private readonly googleTranslateService: GoogleTranslateService) {
+	}
+
+	fetchLanguages(apiKey: string, type: LanguageType): Observable<SupportedLanguage[]> {
+		return this.googleTranslateService.fetchSupportedLanguages(type);
+	}
+
+	fetchUsage(): Observable<ApiUsageResult> {
+		// Usage is counted locally, it is always up to date
+		return this.googleTranslateService.fetchApiUsageWithEnhancedInfo().pipe(
+			map(result => ({
+				...result,
+				shouldRetry: false
+			}))
+		);
+	}
+
+	checkWillExceedLimit(currentCount: number, additionalCount: number, characterLimit: number): { willExceedLimit: boolean, willExceedFileLimit: boolean } {
+		return this.googleTranslateService.checkWillExceedLimits(additionalCount, characterLimit);
+	}
+
+	calculateCharacterCount(texts: string[]): number {
+		return this.googleTranslateService.calculateCharacterCount(texts);
+	}
+
+	translateBatch(texts: string[], targetLang: string, apiKey: string, options: TranslationOptions): Observable<TranslatedText[]> {
+		return this.googleTranslateService.translateMultiple(texts, targetLang, options.sourceLang || 'auto');
+	}
+}
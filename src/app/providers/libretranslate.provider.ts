@@ -0,0 +1,64 @@
+import {Injectable} from '@angular/core';
+import {Observable, of} from 'rxjs';
+import {ApiUsageResult} from '../models/api-usage-result.model';
+import {SupportedLanguage} from '../models/supported-language.model';
+import {TranslatedText} from '../models/translated-text.model';
+import {TranslationOptions} from '../models/translation-options.model';
+import {TranslationProvider} from '../models/translation-provider.model';
+import {UNLIMITED_CHAR_LIMIT} from '../constants/api.constants';
+import {LibreTranslateService} from '../services/libretranslate.service';
+
+/**
+ * LibreTranslate or a compatible server, e.g. self-hosted so that scripts never leave the network
+ * The server has no quota: the characters sent are counted locally for information
+ */
+@Injectable({
+	providedIn: 'root'
+})
+export class LibreTranslateProvider implements TranslationProvider {
+	readonly id = 'libretranslate';
+	readonly name = 'LibreTranslate';
+	readonly auth = 'optional';
+	readonly capabilities = {placeholderStyle: 'xml', serverUrl: true} as const;
+	readonly labels = {
+		usage: 'LIBRETRANSLATE_API_USAGE',
+		usageNote: 'LIBRETRANSLATE_USAGE_NOTE',
+		limitExceeded: 'LIMIT_EXCEEDED_WARNING',
+		usageUpdated: 'LIBRETRANSLATE_USAGE_UPDATED'
+	};
+
+	constructor(private readonly libreTranslateService: LibreTranslateService) {
+	}
+
+	fetchLanguages(apiKey: string): Observable<SupportedLanguage[]> {
+		return this.libreTranslateService.getLanguages(apiKey);
+	}
+
+	fetchUsage(): Observable<ApiUsageResult> {
+		return of({
+			character_count: this.libreTranslateService.getCharacterCount(),
+			character_limit: UNLIMITED_CHAR_LIMIT,
+			shouldRetry: false
+		});
+	}
+
+	checkWillExceedLimit(): { willExceedLimit: boolean, willExceedFileLimit: boolean } {
+		return {willExceedLimit: false, willExceedFileLimit: false};
+	}
+
+	calculateCharacterCount(texts: string[]): number {
+		return this.libreTranslateService.calculateCharacterCount(texts);
+	}
+
+	translateBatch(texts: string[], targetLang: string, apiKey: string, options: TranslationOptions): Observable<TranslatedText[]> {
+		return this.libreTranslateService.translateMultiple(texts, apiKey, targetLang, options.sourceLang);
+	}
+
+	getBaseUrl(): string {
+		return this.libreTranslateService.getBaseUrl();
+	}
+
+	setBaseUrl(url: string): void {
+		this.libreTranslateService.setBaseUrl(url);
+	}
+}
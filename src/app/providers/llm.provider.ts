@@ -0,0 +1,69 @@
+import {Injectable} from '@angular/core';
+import {Observable, of} from 'rxjs';
+import {ApiUsageResult} from '../models/api-usage-result.model';
+import {SupportedLanguage} from '../models/supported-language.model';
+import {TextContext} from '../models/text-context.model';
+import {TranslatedText} from '../models/translated-text.model';
+import {TranslationOptions} from '../models/translation-options.model';
+import {TranslationProvider} from '../models/translation-provider.model';
+import {UNLIMITED_CHAR_LIMIT} from '../constants/api.constants';
+import {LANGUAGE_MAP} from '../constants/language.constants';
+import {LlmTranslationService} from '../services/llm-translation.service';
+
+/**
+ * Large language model behind an OpenAI-compatible chat completions API, hosted or local (llama.cpp, Ollama...)
+ * Usage is counted in tokens, as reported by the API
+ */
+@Injectable({
+	providedIn: 'root'
+})
+export class LlmProvider implements TranslationProvider {
+	readonly id = 'openai-compatible';
+	readonly name = 'LLM (OpenAI-compatible)';
+	readonly auth = 'optional';
+	readonly capabilities = {placeholderStyle: 'xml', context: true, serverUrl: true, promptTemplates: true} as const;
+	readonly labels = {
+		usage: 'LLM_API_USAGE',
+		usageNote: 'LLM_USAGE_NOTE',
+		limitExceeded: 'LIMIT_EXCEEDED_WARNING',
+		usageUpdated: 'LLM_USAGE_UPDATED',
+		unit: 'TOKENS',
+		count: 'ESTIMATED_TOKENS'
+	};
+
+	constructor(private readonly llmTranslationService: LlmTranslationService) {
+	}
+
+	fetchLanguages(): Observable<SupportedLanguage[]> {
+		// Models translate between any languages they know: the languages with a name in the application are offered
+		return of(Object.keys(LANGUAGE_MAP).map(code => ({code, name: code})));
+	}
+
+	fetchUsage(): Observable<ApiUsageResult> {
+		return of({
+			character_count: this.llmTranslationService.getTokenCount(),
+			character_limit: UNLIMITED_CHAR_LIMIT,
+			shouldRetry: false
+		});
+	}
+
+	checkWillExceedLimit(): { willExceedLimit: boolean, willExceedFileLimit: boolean } {
+		return {willExceedLimit: false, willExceedFileLimit: false};
+	}
+
+	calculateCharacterCount(texts: string[]): number {
+		return this.llmTranslationService.estimateTokens(texts);
+	}
+
+	translateBatch(texts: string[], targetLang: string, apiKey: string, options: TranslationOptions, contexts: TextContext[]): Observable<TranslatedText[]> {
+		return this.llmTranslationService.translateMultiple(texts, apiKey, targetLang, options, contexts);
+	}
+
+	getBaseUrl(): string {
+		return this.llmTranslationService.getSettings().baseUrl;
+	}
+
+	setBaseUrl(url: string): void {
+		this.llmTranslationService.saveSettings({...this.llmTranslationService.getSettings(), baseUrl: url});
+	}
+}
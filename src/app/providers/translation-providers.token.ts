@@ -0,0 +1,8 @@
+import {InjectionToken} from '@angular/core';
+import {TranslationProvider} from '../models/translation-provider.model';
+
+// Every translation API the application can use, registered as multi providers in app.config.ts
+export const TRANSLATION_PROVIDERS = new InjectionToken<TranslationProvider[]>('TRANSLATION_PROVIDERS', {
+	providedIn: 'root',
+	factory: () => []
+});
@@ -0,0 +1,38 @@
+import {TestBed} from '@angular/core/testing';
+import {HttpClient} from '@angular/common/http';
+import {DeepLGlossaryService} from './deepl-glossary.service';
+
+describe('DeepLGlossaryService', () => {
+	let service: DeepLGlossaryService;
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({providers: [{provide: HttpClient, useValue: jasmine.createSpyObj<HttpClient>('HttpClient', ['get', 'post', 'delete'])}]});
+		service = TestBed.inject(DeepLGlossaryService);
+	});
+
+	it('should read the first two columns of each row', () => {
+		expect(service.parseCsv('\uFEFFEileen,Eileen,character\r\nsword,épée\nalone\n')).toEqual([
+			{source: 'Eileen', target: 'Eileen'},
+			{source: 'sword', target: 'épée'}
+		]);
+	});
+
+	it('should keep the commas, line breaks and doubled quotes of quoted fields', () => {
+		expect(service.parseCsv('"Hello, world","Bonjour,\nle monde"\n"The ""Inn""",L\'« Auberge »')).toEqual([
+			{source: 'Hello, world', target: 'Bonjour,\nle monde'},
+			{source: 'The "Inn"', target: 'L\'« Auberge »'}
+		]);
+	});
+
+	it('should trim the terms, drop the empty ones and keep the first of a repeated source term', () => {
+		expect(service.normalizeEntries([
+			{source: ' sword ', target: 'épée\n'},
+			{source: 'sword', target: 'glaive'},
+			{source: 'shield', target: ' '},
+			{source: 'two\nlines', target: 'deux  lignes'}
+		])).toEqual([
+			{source: 'sword', target: 'épée'},
+			{source: 'two lines', target: 'deux lignes'}
+		]);
+	});
+});
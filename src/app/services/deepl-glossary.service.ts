@@ -0,0 +1,232 @@
+import {Injectable} from '@angular/core';
+import {HttpClient, HttpHeaders} from '@angular/common/http';
+import {Observable} from 'rxjs';
+import {map, switchMap} from 'rxjs/operators';
+import {DeepLGlossary} from '../models/deepl-glossary.model';
+import {GlossaryEntry} from '../models/glossary-entry.model';
+import {GlossaryLanguagePair} from '../models/glossary-language-pair.model';
+import {DeepLTranslationService} from './deepl-translation.service';
+
+@Injectable({
+	providedIn: 'root'
+})
+export class DeepLGlossaryService {
+	constructor(
+		private readonly httpClient: HttpClient,
+		private readonly deepLTranslationService: DeepLTranslationService
+	) {
+	}
+
+	/**
+	 * List the glossaries of the account
+	 * @param apiKey The DeepL API key
+	 * @returns Observable of the glossaries, sorted by name
+	 */
+	listGlossaries(apiKey: string): Observable<DeepLGlossary[]> {
+		return this.httpClient.get<{ glossaries: DeepLGlossary[] }>(this.getUrl(apiKey, '/glossaries'), {headers: this.createHeaders(apiKey)}).pipe(
+			map(response => [...(response.glossaries ?? [])].sort((a, b) => a.name.localeCompare(b.name)))
+		);
+	}
+
+	/**
+	 * List the language pairs DeepL accepts for glossaries
+	 * @param apiKey The DeepL API key
+	 * @returns Observable of the pairs, with lowercase codes
+	 */
+	getLanguagePairs(apiKey: string): Observable<GlossaryLanguagePair[]> {
+		return this.httpClient.get<{ supported_languages: GlossaryLanguagePair[] }>(this.getUrl(apiKey, '/glossary-language-pairs'), {headers: this.createHeaders(apiKey)}).pipe(
+			map(response => (response.supported_languages ?? []).map(pair => ({
+				source_lang: pair.source_lang.toLowerCase(),
+				target_lang: pair.target_lang.toLowerCase()
+			})))
+		);
+	}
+
+	/**
+	 * Get the terms of a glossary
+	 * @param apiKey The DeepL API key
+	 * @param glossaryId Identifier of the glossary
+	 * @returns Observable of the terms
+	 */
+	getEntries(apiKey: string, glossaryId: string): Observable<GlossaryEntry[]> {
+		const headers = this.createHeaders(apiKey).set('Accept', 'text/tab-separated-values');
+		return this.httpClient.get(this.getUrl(apiKey, `/glossaries/${encodeURIComponent(glossaryId)}/entries`), {headers, responseType: 'text'}).pipe(
+			map(content => this.parseTsv(content))
+		);
+	}
+
+	/**
+	 * Create a glossary
+	 * @param apiKey The DeepL API key
+	 * @param name Name of the glossary
+	 * @param sourceLang Language of the source terms, e.g. "en"
+	 * @param targetLang Language of the target terms, e.g. "fr"
+	 * @param entries Terms of the glossary, normalized with normalizeEntries
+	 * @returns Observable of the created glossary
+	 */
+	createGlossary(apiKey: string, name: string, sourceLang: string, targetLang: string, entries: GlossaryEntry[]): Observable<DeepLGlossary> {
+		const body = {
+			name,
+			source_lang: sourceLang,
+			target_lang: targetLang,
+			entries: entries.map(entry => `${entry.source}\t${entry.target}`).join('\n'),
+			entries_format: 'tsv'
+		};
+		return this.httpClient.post<DeepLGlossary>(this.getUrl(apiKey, '/glossaries'), body, {headers: this.createHeaders(apiKey)});
+	}
+
+	/**
+	 * Replace a glossary with a new version
+	 * DeepL glossaries cannot be modified: the new version is created first, then the previous one is deleted
+	 * @param apiKey The DeepL API key
+	 * @param glossaryId Identifier of the glossary to replace
+	 * @param name Name of the new version
+	 * @param sourceLang Language of the source terms
+	 * @param targetLang Language of the target terms
+	 * @param entries Terms of the new version, normalized with normalizeEntries
+	 * @returns Observable of the new version, which has a new identifier
+	 */
+	replaceGlossary(apiKey: string, glossaryId: string, name: string, sourceLang: string, targetLang: string, entries: GlossaryEntry[]): Observable<DeepLGlossary> {
+		return this.createGlossary(apiKey, name, sourceLang, targetLang, entries).pipe(
+			switchMap(glossary => this.deleteGlossary(apiKey, glossaryId).pipe(map(() => glossary)))
+		);
+	}
+
+	/**
+	 * Delete a glossary
+	 * @param apiKey The DeepL API key
+	 * @param glossaryId Identifier of the glossary
+	 * @returns Observable completing once the glossary is deleted
+	 */
+	deleteGlossary(apiKey: string, glossaryId: string): Observable<void> {
+		return this.httpClient.delete<void>(this.getUrl(apiKey, `/glossaries/${encodeURIComponent(glossaryId)}`), {headers: this.createHeaders(apiKey)});
+	}
+
+	/**
+	 * Check if a glossary can be used to translate into a language
+	 * Glossaries target a language without its variant, e.g. "en" for "en-us"
+	 * @param glossary The glossary
+	 * @param targetLanguage The target language code of the translation
+	 * @returns True if the glossary targets the language
+	 */
+	isForTargetLanguage(glossary: DeepLGlossary, targetLanguage: string): boolean {
+		return glossary.target_lang.toLowerCase() === targetLanguage.toLowerCase().split('-')[0];
+	}
+
+	/**
+	 * Check if a glossary can be used to translate from a language
+	 * @param glossary The glossary
+	 * @param sourceLanguage The source language code of the translation
+	 * @returns True if the glossary translates from the language, regional variants aside
+	 */
+	isForSourceLanguage(glossary: DeepLGlossary, sourceLanguage: string): boolean {
+		return glossary.source_lang.toLowerCase() === sourceLanguage.toLowerCase().split('-')[0];
+	}
+
+	/**
+	 * Read the terms of a CSV file: source term in the first column, target term in the second
+	 * Quoted fields may contain commas, line breaks and doubled quotes, other columns are ignored
+	 * @param content The content of the file
+	 * @returns The terms, in the order of the file
+	 */
+	parseCsv(content: string): GlossaryEntry[] {
+		const rows: string[][] = [];
+		let row: string[] = [];
+		let field = '';
+		let quoted = false;
+
+		const text = content.startsWith('\uFEFF') ? content.slice(1) : content;
+		for (let i = 0; i < text.length; i++) {
+			const char = text[i];
+			if (quoted) {
+				if (char === '"' && text[i + 1] === '"') {
+					field += '"';
+					i++;
+				} else if (char === '"') {
+					quoted = false;
+				} else {
+					field += char;
+				}
+			} else if (char === '"') {
+				quoted = true;
+			} else if (char === ',') {
+				row.push(field);
+				field = '';
+			} else if (char === '\n' || char === '\r') {
+				// "\r\n" ends a single row
+				if (char === '\r' && text[i + 1] === '\n') {
+					i++;
+				}
+				row.push(field);
+				rows.push(row);
+				row = [];
+				field = '';
+			} else {
+				field += char;
+			}
+		}
+		if (field || row.length) {
+			row.push(field);
+			rows.push(row);
+		}
+
+		return rows
+			.filter(columns => columns.length >= 2)
+			.map(columns => ({source: columns[0], target: columns[1]}));
+	}
+
+	/**
+	 * Prepare terms as DeepL accepts them: trimmed, on a single line, without empty terms or repeated source terms
+	 * @param entries The terms, as edited
+	 * @returns The terms to send, the first one kept for a repeated source term
+	 */
+	normalizeEntries(entries: GlossaryEntry[]): GlossaryEntry[] {
+		const sources = new Set<string>();
+		const normalized: GlossaryEntry[] = [];
+
+		for (const entry of entries) {
+			const source = entry.source.replace(/\s+/g, ' ').trim();
+			const target = entry.target.replace(/\s+/g, ' ').trim();
+			if (!source || !target || sources.has(source)) {
+				continue;
+			}
+			sources.add(source);
+			normalized.push({source, target});
+		}
+
+		return normalized;
+	}
+
+	/**
+	 * Read the terms returned by DeepL, one tab-separated pair per line
+	 * @param content The entries of a glossary
+	 * @returns The terms
+	 */
+	private parseTsv(content: string): GlossaryEntry[] {
+		return content.split(/\r?\n/)
+			.map(line => line.split('\t'))
+			.filter(columns => columns.length >= 2 && columns[0])
+			.map(columns => ({source: columns[0], target: columns[1]}));
+	}
+
+	/**
+	 * Build the URL of a glossary endpoint on the API of the key's account
+	 * @param apiKey The DeepL API key
+	 * @param path Path of the endpoint, e.g. "/glossaries"
+	 * @returns The URL
+	 */
+	private getUrl(apiKey: string, path: string): string {
+		return `${this.deepLTranslationService.getApiBaseUrl(apiKey)}${path}`;
+	}
+
+	/**
+	 * Create the headers authenticating a request
+	 * @param apiKey The DeepL API key
+	 * @returns The headers
+	 */
+	private createHeaders(apiKey: string): HttpHeaders {
+		return new HttpHeaders({
+			'Authorization': `DeepL-Auth-Key ${apiKey}`
+		});
+	}
+}
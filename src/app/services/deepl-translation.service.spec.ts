@@ -0,0 +1,65 @@
+import {TestBed} from '@angular/core/testing';
+import {HttpClient} from '@angular/common/http';
+import {Subject} from 'rxjs';
+import {DeepLResponse} from '../models/deepl-response.model';
+import {TranslatedText} from '../models/translated-text.model';
+import {DeepLTranslationService} from './deepl-translation.service';
+
+describe('DeepLTranslationService', () => {
+	let service: DeepLTranslationService;
+	let responses: Subject<DeepLResponse>[];
+
+	beforeEach(() => {
+		responses = [];
+		const httpClient = jasmine.createSpyObj<HttpClient>('HttpClient', ['post']);
+		httpClient.post.and.callFake((() => {
+			const response = new Subject<DeepLResponse>();
+			responses.push(response);
+			return response;
+		}) as any);
+
+		TestBed.configureTestingModule({providers: [{provide: HttpClient, useValue: httpClient}]});
+		service = TestBed.inject(DeepLTranslationService);
+	});
+
+	it('should keep the order of the texts when the batches are answered out of order', () => {
+		// Each text takes more than half of a request, so that every text is sent in its own batch
+		const texts = ['a', 'b', 'c'].map(letter => letter.repeat(60 * 1024));
+		let translations: TranslatedText[] = [];
+
+		service.translateMultiple(texts, 'key:fx', 'FR').subscribe(result => translations = result);
+		expect(responses.length).toEqual(3);
+
+		[2, 0, 1].forEach(batch => {
+			responses[batch].next({translations: [{detected_source_language: 'EN', text: `translation ${batch}`}]});
+			responses[batch].complete();
+		});
+
+		expect(translations.map(translation => translation.text)).toEqual(['translation 0', 'translation 1', 'translation 2']);
+		expect(translations[0].detectedSourceLanguage).toEqual('en');
+	});
+
+	it('should keep the order of the texts when the scene groups are answered out of order', () => {
+		const scene = (before: string[], after: string[]) => ({speaker: 'e', scene: 'start', before, after});
+		const contexts = [
+			{speaker: '', scene: null, before: [], after: []},
+			scene([], ['Two.', 'Three.']),
+			scene(['One.'], ['Three.']),
+			scene(['One.', 'Two.'], [])
+		];
+		let translations: TranslatedText[] = [];
+
+		service.translateMultiple(['Start', 'One.', 'Two.', 'Three.'], 'key:fx', 'FR', 'xml', {contextWindow: 2}, contexts)
+			.subscribe(result => translations = result);
+		expect(responses.length).toEqual(3);
+
+		// Strings first, then the groups of at most two lines of the scene
+		[['Trois.'], ['Démarrer'], ['Un.', 'Deux.']].forEach((texts, i) => {
+			const response = responses[[2, 0, 1][i]];
+			response.next({translations: texts.map(text => ({detected_source_language: 'EN', text}))});
+			response.complete();
+		});
+
+		expect(translations.map(translation => translation.text)).toEqual(['Démarrer', 'Un.', 'Deux.', 'Trois.']);
+	});
+});
@@ -1,16 +1,22 @@
 import {Injectable} from '@angular/core';
 import {HttpClient, HttpHeaders, HttpParams} from '@angular/common/http';
-import {Observable, of} from 'rxjs';
-import {catchError, map} from 'rxjs/operators';
+import {forkJoin, from, Observable, of} from 'rxjs';
+import {catchError, map, mergeMap, toArray} from 'rxjs/operators';
 import {DeepLUsageResult} from '../models/deepl-usage-result.model';
 import {DeepLUsageResponse} from '../models/deepl-usage-response.model';
 import {DeepLResponse} from '../models/deepl-response.model';
+import {LanguageType, SupportedLanguage} from '../models/supported-language.model';
+import {TextContext} from '../models/text-context.model';
+import {TranslatedText} from '../models/translated-text.model';
+import {TranslationOptions} from '../models/translation-options.model';
 import {
-	DEEPL_API_URL,
+	DEEPL_FREE_API_BASE_URL,
 	DEEPL_FREE_CHAR_LIMIT,
+	DEEPL_FREE_KEY_SUFFIX,
 	DEEPL_HEADER_SIZE_LIMIT,
-	DEEPL_REQUEST_SIZE_LIMIT,
-	DEEPL_USAGE_URL
+	DEEPL_MAX_CONCURRENT_REQUESTS,
+	DEEPL_PRO_API_BASE_URL,
+	DEEPL_REQUEST_SIZE_LIMIT
 } from '../constants/api.constants';
 
 
@@ -20,15 +26,36 @@ import {
 export class DeepLTranslationService {
 	constructor(private readonly httpClient: HttpClient) {}
 
+	/**
+	 * Get the API URL matching the account of a key
+	 * DeepL API Free keys end with ":fx" and are only accepted by api-free.deepl.com, other keys by api.deepl.com
+	 * @param apiKey The DeepL API key
+	 * @returns Path to the proxy of the API, without a trailing slash
+	 */
+	getApiBaseUrl(apiKey: string): string {
+		return apiKey.trim().endsWith(DEEPL_FREE_KEY_SUFFIX) ? DEEPL_FREE_API_BASE_URL : DEEPL_PRO_API_BASE_URL;
+	}
+
 	/**
 	 * Translate multiple texts using DeepL API
-	 * Handles request size limits by splitting into multiple requests if necessary
+	 * With a context window, the dialogue lines are sent in small groups of the same scene,
+	 * each with the dialogue around it as context. DeepL does not bill the context.
 	 * @param texts Array of texts to translate
 	 * @param apiKey The DeepL API key
 	 * @param targetLang The target language code
-	 * @returns Observable of translated texts in the same order as input
+	 * @param tagHandling Optional tag handling mode ('xml' or 'html') for texts containing markup
+	 * @param options Optional glossary, source language, formality and context window
+	 * @param contexts Optional scene and surrounding dialogue of each text
+	 * @returns Observable of translated texts with their detected source language, in the same order as input
 	 */
-	translateMultiple(texts: string[], apiKey: string, targetLang: string): Observable<string[]> {
+	translateMultiple(
+		texts: string[],
+		apiKey: string,
+		targetLang: string,
+		tagHandling?: string,
+		options: TranslationOptions = {},
+		contexts: TextContext[] = []
+	): Observable<TranslatedText[]> {
 		if (!texts.length) {
 			return new Observable(observer => {
 				observer.next([]);
@@ -36,74 +63,19 @@ export class DeepLTranslationService {
 			});
 		}
 
-		// Calculate base parameters size (auth_key and target_lang)
-		const baseParams = new HttpParams()
-			.set('auth_key', apiKey)
-			.set('target_lang', targetLang);
-
-		const baseParamsSize = baseParams.toString().length;
-		const availableSize = DEEPL_REQUEST_SIZE_LIMIT - DEEPL_HEADER_SIZE_LIMIT - baseParamsSize;
-
-		// Split texts into batches that fit within the request size limit
-		const batches: string[][] = [];
-		let currentBatch: string[] = [];
-		let currentBatchSize = 0;
-
-		for (const text of texts) {
-			// Calculate size of this text as a parameter (text=<encoded-text>)
-			const textParamSize = encodeURIComponent(`text=${text}`).length + 1; // +1 for & separator
-
-			// If adding this text would exceed the limit, start a new batch
-			if (currentBatchSize + textParamSize > availableSize && currentBatch.length > 0) {
-				batches.push(currentBatch);
-				currentBatch = [];
-				currentBatchSize = 0;
-			}
-
-			// Add text to current batch
-			currentBatch.push(text);
-			currentBatchSize += textParamSize;
-		}
-
-		// Add the last batch if it's not empty
-		if (currentBatch.length > 0) {
-			batches.push(currentBatch);
-		}
-
-		// If only one batch, make a single request
-		if (batches.length === 1) {
-			return this.translateBatch(batches[0], apiKey, targetLang);
+		const groups = this.groupByScene(texts, contexts, options.contextWindow ?? 0);
+		if (groups.length === 1 && !groups[0].context) {
+			return this.translateInBatches(texts, apiKey, targetLang, tagHandling, options);
 		}
 
-		// Otherwise, make multiple requests and combine the results
-		return new Observable<string[]>(observer => {
-			const allTranslations: string[] = new Array(texts.length);
-			let completedBatches = 0;
-			let startIndex = 0;
-
-			// Process each batch
-			for (const batch of batches) {
-				this.translateBatch(batch, apiKey, targetLang).subscribe({
-					next: (translations) => {
-						// Place translations in the correct positions in the result array
-						for (let i = 0; i < translations.length; i++) {
-							allTranslations[startIndex + i] = translations[i];
-						}
-						startIndex += batch.length;
-						completedBatches++;
-
-						// If all batches are complete, emit the result
-						if (completedBatches === batches.length) {
-							observer.next(allTranslations);
-							observer.complete();
-						}
-					},
-					error: (err) => {
-						observer.error(err);
-					}
-				});
-			}
-		});
+		const translations: TranslatedText[] = new Array(texts.length);
+		return from(groups).pipe(
+			mergeMap(group => this.translateInBatches(group.indexes.map(index => texts[index]), apiKey, targetLang, tagHandling, options, group.context).pipe(
+				map(translated => group.indexes.forEach((index, i) => translations[index] = translated[i]))
+			), DEEPL_MAX_CONCURRENT_REQUESTS),
+			toArray(),
+			map(() => translations)
+		);
 	}
 
 	/**
@@ -116,7 +88,24 @@ export class DeepLTranslationService {
 			'Authorization': `DeepL-Auth-Key ${apiKey}`
 		});
 
-		return this.httpClient.get<DeepLUsageResponse>(DEEPL_USAGE_URL, {headers});
+		return this.httpClient.get<DeepLUsageResponse>(`${this.getApiBaseUrl(apiKey)}/usage`, {headers});
+	}
+
+	/**
+	 * Get the source or target languages of DeepL API
+	 * @param apiKey The DeepL API key
+	 * @param type Source or target languages
+	 * @returns Observable of the languages, with lowercase codes and whether they support formality
+	 */
+	getLanguages(apiKey: string, type: LanguageType = 'target'): Observable<SupportedLanguage[]> {
+		return this.httpClient.get<any[]>(`${this.getApiBaseUrl(apiKey)}/languages`, {params: {auth_key: apiKey, type}}).pipe(
+			// DeepL returns an array like: [{ language: 'EN', name: 'English' }, ...]
+			map(response => response.map(lang => ({
+				code: (lang.language || '').toString().toLowerCase(),
+				name: lang.name,
+				supportsFormality: !!lang.supports_formality
+			})))
+		);
 	}
 
 	/**
@@ -210,18 +199,112 @@ export class DeepLTranslationService {
 		};
 	}
 
+	/**
+	 * Translate texts sharing the same context
+	 * Handles request size limits by splitting into multiple requests if necessary
+	 * @param texts Array of texts to translate
+	 * @param apiKey The DeepL API key
+	 * @param targetLang The target language code
+	 * @param tagHandling Optional tag handling mode ('xml' or 'html') for texts containing markup
+	 * @param options Source language, glossary and formality
+	 * @param context Optional text sent as context with every request
+	 * @returns Observable of translated texts in the same order as input
+	 */
+	private translateInBatches(texts: string[], apiKey: string, targetLang: string, tagHandling: string | undefined, options: TranslationOptions, context?: string): Observable<TranslatedText[]> {
+		// Calculate base parameters size (auth_key, target_lang, tag_handling, glossary, formality and context)
+		const baseParams = this.createBaseParams(apiKey, targetLang, tagHandling, options, context);
+
+		const baseParamsSize = baseParams.toString().length;
+		const availableSize = DEEPL_REQUEST_SIZE_LIMIT - DEEPL_HEADER_SIZE_LIMIT - baseParamsSize;
+
+		// Split texts into batches that fit within the request size limit
+		const batches: string[][] = [];
+		let currentBatch: string[] = [];
+		let currentBatchSize = 0;
+
+		for (const text of texts) {
+			// Calculate size of this text as a parameter (text=<encoded-text>)
+			const textParamSize = encodeURIComponent(`text=${text}`).length + 1; // +1 for & separator
+
+			// If adding this text would exceed the limit, start a new batch
+			if (currentBatchSize + textParamSize > availableSize && currentBatch.length > 0) {
+				batches.push(currentBatch);
+				currentBatch = [];
+				currentBatchSize = 0;
+			}
+
+			// Add text to current batch
+			currentBatch.push(text);
+			currentBatchSize += textParamSize;
+		}
+
+		// Add the last batch if it's not empty
+		if (currentBatch.length > 0) {
+			batches.push(currentBatch);
+		}
+
+		// If only one batch, make a single request
+		if (batches.length === 1) {
+			return this.translateBatch(batches[0], apiKey, targetLang, tagHandling, options, context);
+		}
+
+		// Otherwise, make multiple requests and combine the results in the order of the batches,
+		// whatever the order in which the responses arrive
+		return forkJoin(batches.map(batch => this.translateBatch(batch, apiKey, targetLang, tagHandling, options, context))).pipe(
+			map(translations => translations.flat())
+		);
+	}
+
+	/**
+	 * Group the texts sent with the same context: consecutive dialogue lines of a scene, at most the window size
+	 * The context of a group is the dialogue before its first line, its lines and the dialogue after its last line
+	 * @param texts Array of texts to translate
+	 * @param contexts Scene and surrounding dialogue of each text
+	 * @param window Number of dialogue lines around the texts, 0 to send no context
+	 * @returns The indexes of the texts of each group, the texts without context in a single group
+	 */
+	private groupByScene(texts: string[], contexts: TextContext[], window: number): { indexes: number[], context?: string }[] {
+		if (window <= 0 || contexts.length !== texts.length) {
+			return [{indexes: texts.map((_, index) => index)}];
+		}
+
+		const withoutContext: number[] = [];
+		const scenes: number[][] = [];
+		texts.forEach((_, index) => {
+			const scene = contexts[index].scene;
+			const current = scenes.at(-1);
+			if (scene === null) {
+				withoutContext.push(index);
+			} else if (current && current.length < window && current.at(-1) === index - 1 && contexts[current[0]].scene === scene) {
+				current.push(index);
+			} else {
+				scenes.push([index]);
+			}
+		});
+
+		const groups: { indexes: number[], context?: string }[] = scenes.map(indexes => {
+			const lines = [...contexts[indexes[0]].before, ...indexes.map(index => texts[index]), ...contexts[indexes.at(-1)!].after];
+			return {indexes, context: lines.join('\n')};
+		});
+		if (withoutContext.length) {
+			groups.unshift({indexes: withoutContext});
+		}
+		return groups;
+	}
+
 	/**
 	 * Translate a batch of texts using DeepL API
 	 * @param batch Array of texts to translate in a single request
 	 * @param apiKey The DeepL API key
 	 * @param targetLang The target language code
-	 * @returns Observable of translated texts
+	 * @param tagHandling Optional tag handling mode ('xml' or 'html')
+	 * @param options Source language, glossary and formality
+	 * @param context Optional text sent as context
+	 * @returns Observable of translated texts with their detected source language
 	 */
-	private translateBatch(batch: string[], apiKey: string, targetLang: string): Observable<string[]> {
+	private translateBatch(batch: string[], apiKey: string, targetLang: string, tagHandling: string | undefined, options: TranslationOptions, context?: string): Observable<TranslatedText[]> {
 		// Create HttpParams for the request
-		let params = new HttpParams()
-			.set('auth_key', apiKey)
-			.set('target_lang', targetLang);
+		let params = this.createBaseParams(apiKey, targetLang, tagHandling, options, context);
 
 		// Add each text as a separate 'text' parameter
 		for (const text of batch) {
@@ -233,14 +316,55 @@ export class DeepLTranslationService {
 		});
 
 		// Make a single request with all texts in this batch
-		return this.httpClient.post<DeepLResponse>(DEEPL_API_URL, params.toString(), {headers}).pipe(
+		return this.httpClient.post<DeepLResponse>(`${this.getApiBaseUrl(apiKey)}/translate`, params.toString(), {headers}).pipe(
 			map(response => {
 				if (response.translations?.length) {
 					// Extract all translated texts in order
-					return response.translations.map(translation => translation.text);
+					return response.translations.map(translation => ({
+						text: translation.text,
+						detectedSourceLanguage: translation.detected_source_language?.toLowerCase()
+					}));
 				}
 				throw new Error('No translation received');
 			})
 		);
 	}
+
+	/**
+	 * Create the parameters shared by every translation request
+	 * @param apiKey The DeepL API key
+	 * @param targetLang The target language code
+	 * @param tagHandling Optional tag handling mode ('xml' or 'html')
+	 * @param options Source language, glossary and formality
+	 * @param context Optional text sent as context, which is not translated nor billed
+	 * @returns HttpParams without any text
+	 */
+	private createBaseParams(apiKey: string, targetLang: string, tagHandling: string | undefined, options: TranslationOptions, context?: string): HttpParams {
+		let params = new HttpParams()
+			.set('auth_key', apiKey)
+			.set('target_lang', targetLang);
+
+		if (tagHandling) {
+			params = params.set('tag_handling', tagHandling);
+		}
+
+		// The source language is detected when not given, but DeepL only applies a glossary when it is given
+		if (options.sourceLang) {
+			params = params.set('source_lang', options.sourceLang.toUpperCase());
+
+			if (options.glossaryId) {
+				params = params.set('glossary_id', options.glossaryId);
+			}
+		}
+
+		if (options.formality && options.formality !== 'default') {
+			params = params.set('formality', options.formality);
+		}
+
+		if (context) {
+			params = params.set('context', context);
+		}
+
+		return params;
+	}
 }
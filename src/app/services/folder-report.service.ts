@@ -0,0 +1,207 @@
+import {Injectable} from '@angular/core';
+import {CoverageCounts, DuplicateString, FileCoverage, FolderReport, OrphanedEntry} from '../models/folder-report.model';
+import {TemplateSource} from '../models/translation-template.model';
+import {TranslationUnit} from '../models/translation-unit.model';
+import {RenpyFileParserService} from './renpy-file-parser.service';
+import {RenpyStringService} from './renpy-string.service';
+import {TranslationTemplateService} from './translation-template.service';
+
+interface ReportedFile {
+	path: string;
+	languages: string[];
+	units: TranslationUnit[];
+}
+
+@Injectable({
+	providedIn: 'root'
+})
+export class FolderReportService {
+	constructor(
+		private readonly renpyFileParserService: RenpyFileParserService,
+		private readonly renpyStringService: RenpyStringService,
+		private readonly translationTemplateService: TranslationTemplateService
+	) {
+	}
+
+	/**
+	 * Report the translation coverage of the translation files of a folder
+	 * Blocks and old strings are orphaned when the game scripts of the folder no longer produce them;
+	 * strings are duplicates when another file translates the same source text differently
+	 * @param files Every file of the folder, game scripts and translation files
+	 * @returns The counts of each translation file and of the whole folder
+	 */
+	buildReport(files: TemplateSource[]): FolderReport {
+		const sources = files.filter(file => this.translationTemplateService.isSourceScript(file.content));
+		const reportedFiles: ReportedFile[] = files
+			.map(file => ({
+				path: file.path,
+				languages: this.renpyFileParserService.detectLanguages(file.content),
+				units: this.renpyFileParserService.parseUnits(file.content)
+			}))
+			.filter(file => file.languages.length);
+
+		const orphans = sources.length ? this.findOrphans(reportedFiles, sources) : [];
+		const duplicates = this.findDuplicates(reportedFiles);
+
+		const coverages = reportedFiles.map(file => this.getFileCoverage(file, orphans, duplicates));
+		const total: CoverageCounts = {translated: 0, untranslated: 0, orphaned: 0, duplicates: 0};
+		for (const coverage of coverages) {
+			total.translated += coverage.translated;
+			total.untranslated += coverage.untranslated;
+			total.orphaned += coverage.orphaned;
+			total.duplicates += coverage.duplicates;
+		}
+
+		return {
+			files: coverages,
+			total,
+			hasSources: sources.length > 0,
+			orphans,
+			duplicates,
+			uncoveredFiles: coverages.filter(coverage => !coverage.translated && coverage.untranslated).map(coverage => coverage.path)
+		};
+	}
+
+	/**
+	 * Write the per-file counts of a report as CSV, followed by the folder total
+	 * @param report The folder report
+	 * @returns The CSV content
+	 */
+	toCsv(report: FolderReport): string {
+		const rows = [['file', 'languages', 'translated', 'untranslated', 'orphaned', 'duplicates', 'coverage']];
+		for (const file of report.files) {
+			rows.push([file.path, file.languages.join(' '), ...this.getCountCells(file)]);
+		}
+		rows.push(['total', '', ...this.getCountCells(report.total)]);
+
+		return rows.map(row => row.map(cell => this.escapeCsvCell(cell)).join(',')).join('\r\n') + '\r\n';
+	}
+
+	/**
+	 * Compute the share of translated units, orphans excluded
+	 * @param counts Counts of a file or of the folder
+	 * @returns The coverage, from 0 to 1
+	 */
+	getCoverage(counts: CoverageCounts): number {
+		const total = counts.translated + counts.untranslated;
+		return total ? counts.translated / total : 0;
+	}
+
+	/**
+	 * Find the units of the translation files that the game scripts no longer produce
+	 * Dialogue blocks are matched on the identifiers of the regenerated templates, old strings on any
+	 * string literal of the scripts since screens and variables are translated through the strings block too
+	 * @param files Translation files of the folder
+	 * @param sources Game scripts of the folder
+	 * @returns The orphaned units
+	 */
+	private findOrphans(files: ReportedFile[], sources: TemplateSource[]): OrphanedEntry[] {
+		const identifiers = new Set<string>();
+		for (const template of this.translationTemplateService.generateTemplates(sources, 'template')) {
+			for (const unit of this.renpyFileParserService.parseUnits(template.content)) {
+				identifiers.add(unit.blockId);
+			}
+		}
+
+		const literals = new Set<string>();
+		for (const source of sources) {
+			for (const line of this.renpyFileParserService.splitLogicalLines(source.content)) {
+				for (const literal of this.renpyStringService.findStringLiterals(line.text.trim())) {
+					literals.add(literal.value);
+				}
+			}
+		}
+
+		const orphans: OrphanedEntry[] = [];
+		for (const file of files) {
+			for (const unit of file.units) {
+				const known = unit.kind === 'strings' ? literals.has(unit.sourceText) : identifiers.has(unit.blockId);
+				if (!known) {
+					orphans.push({path: file.path, lineNumber: unit.targetLineIndex + 1, blockId: unit.blockId, sourceText: unit.sourceText});
+				}
+			}
+		}
+		return orphans;
+	}
+
+	/**
+	 * Find the source texts translated differently by several files, per language
+	 * @param files Translation files of the folder
+	 * @returns The source texts with all their translations
+	 */
+	private findDuplicates(files: ReportedFile[]): DuplicateString[] {
+		const groups = new Map<string, DuplicateString>();
+		for (const file of files) {
+			for (const unit of file.units) {
+				if (!unit.existingTranslation) {
+					continue;
+				}
+
+				const key = `${unit.language}:${unit.sourceText}`;
+				let group = groups.get(key);
+				if (!group) {
+					group = {language: unit.language, sourceText: unit.sourceText, translations: []};
+					groups.set(key, group);
+				}
+				group.translations.push({path: file.path, translation: unit.existingTranslation});
+			}
+		}
+
+		return [...groups.values()].filter(group =>
+			new Set(group.translations.map(entry => entry.path)).size > 1 &&
+			new Set(group.translations.map(entry => entry.translation)).size > 1
+		);
+	}
+
+	/**
+	 * Count the units of a translation file
+	 * @param file Translation file
+	 * @param orphans Orphaned units of the folder
+	 * @param duplicates Duplicate strings of the folder
+	 * @returns The counts of the file, orphans being counted apart from translated and untranslated units
+	 */
+	private getFileCoverage(file: ReportedFile, orphans: OrphanedEntry[], duplicates: DuplicateString[]): FileCoverage {
+		const orphanLines = new Set(orphans.filter(orphan => orphan.path === file.path).map(orphan => orphan.lineNumber));
+		const duplicateKeys = new Set(duplicates.map(duplicate => `${duplicate.language}:${duplicate.sourceText}`));
+		const coverage: FileCoverage = {path: file.path, languages: file.languages, translated: 0, untranslated: 0, orphaned: 0, duplicates: 0};
+
+		for (const unit of file.units) {
+			if (orphanLines.has(unit.targetLineIndex + 1)) {
+				coverage.orphaned++;
+			} else if (unit.existingTranslation) {
+				coverage.translated++;
+			} else {
+				coverage.untranslated++;
+			}
+
+			if (unit.existingTranslation && duplicateKeys.has(`${unit.language}:${unit.sourceText}`)) {
+				coverage.duplicates++;
+			}
+		}
+		return coverage;
+	}
+
+	/**
+	 * Format the counts of a CSV row
+	 * @param counts Counts of a file or of the folder
+	 * @returns The count cells, coverage as a percentage
+	 */
+	private getCountCells(counts: CoverageCounts): string[] {
+		return [
+			String(counts.translated),
+			String(counts.untranslated),
+			String(counts.orphaned),
+			String(counts.duplicates),
+			(this.getCoverage(counts) * 100).toFixed(1)
+		];
+	}
+
+	/**
+	 * Quote a CSV cell when it contains a separator, a quote or a line break
+	 * @param cell Cell content
+	 * @returns The escaped cell
+	 */
+	private escapeCsvCell(cell: string): string {
+		return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+	}
+}
@@ -0,0 +1,147 @@
+import {Injectable} from '@angular/core';
+import {HttpClient} from '@angular/common/http';
+import {from, Observable, of} from 'rxjs';
+import {concatMap, map, tap, toArray} from 'rxjs/operators';
+import {GoogleCloudLanguagesResponse} from '../models/google-cloud-languages-response.model';
+import {GoogleCloudResponse} from '../models/google-cloud-response.model';
+import {GoogleCloudUsage} from '../models/google-cloud-usage.model';
+import {SupportedLanguage} from '../models/supported-language.model';
+import {TranslatedText} from '../models/translated-text.model';
+import {TextBatchService} from './text-batch.service';
+import {
+	GOOGLE_CLOUD_API_URL,
+	GOOGLE_CLOUD_LOCAL_STORAGE_KEY,
+	GOOGLE_CLOUD_MAX_REQUEST_CHARS,
+	GOOGLE_CLOUD_MAX_SEGMENTS
+} from '../constants/api.constants';
+
+@Injectable({
+	providedIn: 'root'
+})
+export class GoogleCloudTranslationService {
+	constructor(
+		private readonly httpClient: HttpClient,
+		private readonly textBatchService: TextBatchService
+	) {
+	}
+
+	/**
+	 * Translate multiple texts using Google Cloud Translation API
+	 * Texts are sent as plain text, in requests within the segment and size limits of the API
+	 * @param texts Array of texts to translate
+	 * @param apiKey The Google Cloud API key
+	 * @param targetLang The target language code
+	 * @param sourceLang Optional source language code, detected by the API when undefined
+	 * @returns Observable of translated texts with their detected source language, in the same order as input
+	 */
+	translateMultiple(texts: string[], apiKey: string, targetLang: string, sourceLang?: string): Observable<TranslatedText[]> {
+		if (!texts.length) {
+			return of([]);
+		}
+
+		// Requests are sent one after the other, each billed once translated
+		return from(this.textBatchService.createBatches(texts, GOOGLE_CLOUD_MAX_SEGMENTS, GOOGLE_CLOUD_MAX_REQUEST_CHARS)).pipe(
+			concatMap(batch => this.translateBatch(batch, apiKey, targetLang, sourceLang).pipe(
+				tap(() => this.addCharacters(this.calculateCharacterCount(batch)))
+			)),
+			toArray(),
+			map(batches => batches.flat())
+		);
+	}
+
+	/**
+	 * Get the languages of Google Cloud Translation API, the same for the source and the target
+	 * @param apiKey The Google Cloud API key
+	 * @returns Observable of the languages, named in English
+	 */
+	getLanguages(apiKey: string): Observable<SupportedLanguage[]> {
+		return this.httpClient.get<GoogleCloudLanguagesResponse>(`${GOOGLE_CLOUD_API_URL}/languages`, {params: {key: apiKey, target: 'en'}}).pipe(
+			map(response => {
+				if (!Array.isArray(response?.data?.languages)) {
+					throw new Error('Unexpected response format from Google Cloud Translation API');
+				}
+				return response.data.languages.map(lang => ({
+					code: (lang.language || '').toLowerCase(),
+					name: lang.name
+				}));
+			})
+		);
+	}
+
+	/**
+	 * Calculate the total character count for an array of texts
+	 * Google bills every character sent, whitespace included
+	 * @param texts Array of texts to count characters for
+	 * @returns Total character count
+	 */
+	calculateCharacterCount(texts: string[]): number {
+		return this.textBatchService.calculateCharacterCount(texts);
+	}
+
+	/**
+	 * Get the characters sent during the current billing month
+	 * @returns The usage, with the monthly limit set by the user
+	 */
+	getUsage(): GoogleCloudUsage {
+		const month = this.textBatchService.getCurrentMonth();
+		const usageData = localStorage.getItem(GOOGLE_CLOUD_LOCAL_STORAGE_KEY);
+		const usage: GoogleCloudUsage | null = usageData ? JSON.parse(usageData) : null;
+
+		// Google bills per calendar month: the count starts again with each month, the limit is kept
+		return {
+			month,
+			character_count: usage?.month === month ? usage.character_count : 0,
+			character_limit: usage?.character_limit ?? 0
+		};
+	}
+
+	/**
+	 * Set the monthly character limit, e.g. the quota configured in the Google Cloud console
+	 * @param limit Number of characters per month, 0 for no limit
+	 */
+	setCharacterLimit(limit: number): void {
+		this.saveUsage({...this.getUsage(), character_limit: limit});
+	}
+
+	/**
+	 * Translate a batch of texts in a single request
+	 * @param batch Array of texts to translate
+	 * @param apiKey The Google Cloud API key
+	 * @param targetLang The target language code
+	 * @param sourceLang Optional source language code
+	 * @returns Observable of translated texts
+	 */
+	private translateBatch(batch: string[], apiKey: string, targetLang: string, sourceLang?: string): Observable<TranslatedText[]> {
+		// Plain text: markup is masked with tokens, HTML entities would be escaped otherwise
+		const body: Record<string, unknown> = {q: batch, target: targetLang, format: 'text'};
+		if (sourceLang) {
+			body['source'] = sourceLang;
+		}
+
+		return this.httpClient.post<GoogleCloudResponse>(GOOGLE_CLOUD_API_URL, body, {params: {key: apiKey}}).pipe(
+			map(response => {
+				const translations = response?.data?.translations;
+				if (translations?.length !== batch.length) {
+					throw new Error('Unexpected response format from Google Cloud Translation API');
+				}
+				return translations.map(translation => ({
+					text: translation.translatedText,
+					detectedSourceLanguage: (translation.detectedSourceLanguage ?? sourceLang)?.toLowerCase()
+				}));
+			})
+		);
+	}
+
+	/**
+	 * Add translated characters to the count of the current month
+	 * @param characterCount Number of characters billed
+	 */
+	private addCharacters(characterCount: number): void {
+		const usage = this.getUsage();
+		this.saveUsage({...usage, character_count: usage.character_count + characterCount});
+	}
+
+	private saveUsage(usage: GoogleCloudUsage): void {
+		localStorage.setItem(GOOGLE_CLOUD_LOCAL_STORAGE_KEY, JSON.stringify(usage));
+	}
+}
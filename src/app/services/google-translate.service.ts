@@ -2,7 +2,8 @@ import {Injectable} from '@angular/core';
 import {HttpClient, HttpParams} from '@angular/common/http';
 import {forkJoin, Observable, of, throwError} from 'rxjs';
 import {catchError, map} from 'rxjs/operators';
-import {SupportedLanguage} from '../models/supported-language.model';
+import {LanguageType, SupportedLanguage} from '../models/supported-language.model';
+import {TranslatedText} from '../models/translated-text.model';
 import {GoogleTranslateUsage} from '../models/google-translate-usage.model';
 import {GoogleTranslateUsageResult} from '../models/google-translate-usage-result.model';
 import {
@@ -50,9 +51,9 @@ export class GoogleTranslateService {
 	 * @param text The text to translate
 	 * @param targetLang The target language code
 	 * @param sourceLang The source language code (default: 'auto' for auto-detection)
-	 * @returns Observable of the translated text
+	 * @returns Observable of the translated text and its detected source language
 	 */
-	translate(text: string, targetLang: string, sourceLang: string = 'auto'): Observable<string> {
+	translate(text: string, targetLang: string, sourceLang: string = 'auto'): Observable<TranslatedText> {
 		// Build the query parameters
 		const params = new HttpParams()
 			.set('client', 'gtx')
@@ -65,7 +66,7 @@ export class GoogleTranslateService {
 		return this.httpClient.get<any>(`${GOOGLE_TRANSLATE_API_URL}?${params.toString()}`)
 			.pipe(
 				map(response => {
-					// The response format is a nested array: [[["translated text","original text",null,null,1]]]
+					// The response format is a nested array: [[["translated text","original text",null,null,1]],null,"en",...]
 					if (response && Array.isArray(response) && response.length > 0 &&
 						Array.isArray(response[0]) && response[0].length > 0) {
 
@@ -76,7 +77,10 @@ export class GoogleTranslateService {
 								translatedText += part[0];
 							}
 						}
-						return translatedText;
+
+						// The third element is the source language, detected or given
+						const detectedSourceLanguage = typeof response[2] === 'string' ? response[2].toLowerCase() : undefined;
+						return {text: translatedText, detectedSourceLanguage};
 					}
 					throw new Error('Unexpected response format from Google Translate API');
 				}),
@@ -94,7 +98,7 @@ export class GoogleTranslateService {
 	 * @param sourceLang The source language code (default: 'auto' for auto-detection)
 	 * @returns Observable of translated texts array
 	 */
-	translateMultiple(texts: string[], targetLang: string, sourceLang: string = 'auto'): Observable<string[]> {
+	translateMultiple(texts: string[], targetLang: string, sourceLang: string = 'auto'): Observable<TranslatedText[]> {
 		if (!texts || texts.length === 0) {
 			return of([]);
 		}
@@ -389,9 +393,10 @@ export class GoogleTranslateService {
 
 	/**
 	 * Fetch all supported languages from the Google Translate API
+	 * @param type Source or target languages
 	 * @returns Observable of GoogleLanguage objects
 	 */
-	fetchSupportedLanguages(): Observable<SupportedLanguage[]> {
+	fetchSupportedLanguages(type: LanguageType = 'target'): Observable<SupportedLanguage[]> {
 		// Build the query parameters
 		const params = new HttpParams().set('client', 'gtx');
 
@@ -400,19 +405,21 @@ export class GoogleTranslateService {
 			.pipe(
 				map(response => {
 					// The response contains 'sl' (source languages) and 'tl' (target languages)
-					// We'll use the target languages ('tl') as they're the ones we can translate to
-					if (response?.tl) {
+					const names = type === 'source' ? response?.sl : response?.tl;
+					if (names) {
 						const languages: SupportedLanguage[] = [];
 
 						// Convert the object to an array of GoogleLanguage objects
-						for (const [code, name] of Object.entries(response.tl)) {
-							languages.push({
-								code: code,
-								name: name as string
-							});
+						for (const [code, name] of Object.entries(names)) {
+							// The source languages include the detection, offered separately
+							if (code !== 'auto') {
+								languages.push({
+									code: code,
+									name: name as string
+								});
+							}
 						}
 
-						console.log('Supported languages from Google Translate API:', languages);
 						return languages;
 					}
 					throw new Error('Unexpected response format from Google Translate API');
@@ -0,0 +1,179 @@
+import {Injectable} from '@angular/core';
+import {HttpClient} from '@angular/common/http';
+import {from, Observable, of} from 'rxjs';
+import {concatMap, map, tap, toArray} from 'rxjs/operators';
+import {LibreTranslateLanguage} from '../models/libretranslate-language.model';
+import {LibreTranslateResponse} from '../models/libretranslate-response.model';
+import {LibreTranslateSettings} from '../models/libretranslate-settings.model';
+import {SupportedLanguage} from '../models/supported-language.model';
+import {TranslatedText} from '../models/translated-text.model';
+import {TextBatchService} from './text-batch.service';
+import {
+	LIBRETRANSLATE_DEFAULT_URL,
+	LIBRETRANSLATE_LOCAL_STORAGE_KEY,
+	LIBRETRANSLATE_MAX_REQUEST_CHARS,
+	LIBRETRANSLATE_MAX_SEGMENTS
+} from '../constants/api.constants';
+
+@Injectable({
+	providedIn: 'root'
+})
+export class LibreTranslateService {
+	// Codes of the server by lowercase code, e.g. "zh-Hans" for "zh-hans": language codes are lowercased for the selectors
+	private readonly languageCodes = new Map<string, string>();
+
+	constructor(
+		private readonly httpClient: HttpClient,
+		private readonly textBatchService: TextBatchService
+	) {
+	}
+
+	/**
+	 * Translate multiple texts with the LibreTranslate server
+	 * Texts are sent as HTML so that the placeholders of the Ren'Py markup are kept as tags
+	 * @param texts Array of texts to translate, escaped for HTML
+	 * @param apiKey Optional API key, required by some servers
+	 * @param targetLang The target language code
+	 * @param sourceLang Optional source language code, detected by the server when undefined
+	 * @returns Observable of translated texts with their detected source language, in the same order as input
+	 */
+	translateMultiple(texts: string[], apiKey: string, targetLang: string, sourceLang?: string): Observable<TranslatedText[]> {
+		if (!texts.length) {
+			return of([]);
+		}
+
+		// Self-hosted servers translate on their own CPU: requests are sent one after the other
+		return from(this.textBatchService.createBatches(texts, LIBRETRANSLATE_MAX_SEGMENTS, LIBRETRANSLATE_MAX_REQUEST_CHARS)).pipe(
+			concatMap(batch => this.translateBatch(batch, apiKey, targetLang, sourceLang).pipe(
+				tap(() => this.addCharacters(this.calculateCharacterCount(batch)))
+			)),
+			toArray(),
+			map(batches => batches.flat())
+		);
+	}
+
+	/**
+	 * Get the languages of the server, the same for the source and the target
+	 * @param apiKey Optional API key, required by some servers
+	 * @returns Observable of the languages
+	 */
+	getLanguages(apiKey: string): Observable<SupportedLanguage[]> {
+		const params: Record<string, string> = apiKey ? {api_key: apiKey} : {};
+		return this.httpClient.get<LibreTranslateLanguage[]>(`${this.getBaseUrl()}/languages`, {params}).pipe(
+			map(response => {
+				if (!Array.isArray(response)) {
+					throw new Error('Unexpected response format from LibreTranslate');
+				}
+				response.forEach(lang => this.languageCodes.set((lang.code || '').toLowerCase(), lang.code));
+				return response.map(lang => ({
+					code: (lang.code || '').toLowerCase(),
+					name: lang.name
+				}));
+			})
+		);
+	}
+
+	/**
+	 * Calculate the total character count for an array of texts
+	 * @param texts Array of texts to count characters for
+	 * @returns Total character count
+	 */
+	calculateCharacterCount(texts: string[]): number {
+		return this.textBatchService.calculateCharacterCount(texts);
+	}
+
+	/**
+	 * Get the characters sent to the server during the current month
+	 * @returns The character count
+	 */
+	getCharacterCount(): number {
+		const settings = this.getSettings();
+		return settings.month === this.textBatchService.getCurrentMonth() ? settings.character_count : 0;
+	}
+
+	/**
+	 * Get the URL of the server
+	 * @returns The URL without a trailing slash, the local instance by default
+	 */
+	getBaseUrl(): string {
+		return this.getSettings().baseUrl;
+	}
+
+	/**
+	 * Set the URL of the server
+	 * @param url The URL, e.g. "https://translate.example.com", the local instance when empty
+	 */
+	setBaseUrl(url: string): void {
+		this.saveSettings({...this.getSettings(), baseUrl: url.trim().replace(/\/+$/, '') || LIBRETRANSLATE_DEFAULT_URL});
+	}
+
+	/**
+	 * Translate a batch of texts in a single request
+	 * @param batch Array of texts to translate
+	 * @param apiKey Optional API key
+	 * @param targetLang The target language code
+	 * @param sourceLang Optional source language code
+	 * @returns Observable of translated texts
+	 */
+	private translateBatch(batch: string[], apiKey: string, targetLang: string, sourceLang?: string): Observable<TranslatedText[]> {
+		const body: Record<string, unknown> = {
+			q: batch,
+			source: sourceLang ? this.getServerCode(sourceLang) : 'auto',
+			target: this.getServerCode(targetLang),
+			format: 'html'
+		};
+		if (apiKey) {
+			body['api_key'] = apiKey;
+		}
+
+		return this.httpClient.post<LibreTranslateResponse>(`${this.getBaseUrl()}/translate`, body).pipe(
+			map(response => {
+				const translatedTexts = [response?.translatedText ?? []].flat();
+				if (translatedTexts.length !== batch.length) {
+					throw new Error('Unexpected response format from LibreTranslate');
+				}
+
+				const detectedLanguages = [response.detectedLanguage ?? []].flat();
+				return translatedTexts.map((text, index) => ({
+					text,
+					detectedSourceLanguage: (detectedLanguages[index]?.language ?? sourceLang)?.toLowerCase()
+				}));
+			})
+		);
+	}
+
+	/**
+	 * Add translated characters to the count of the current month
+	 * @param characterCount Number of characters sent
+	 */
+	private addCharacters(characterCount: number): void {
+		this.saveSettings({
+			...this.getSettings(),
+			month: this.textBatchService.getCurrentMonth(),
+			character_count: this.getCharacterCount() + characterCount
+		});
+	}
+
+	/**
+	 * Get a language code as the server writes it
+	 * @param code The language code, in any case
+	 * @returns The code listed by the server, the given code if the languages are not loaded
+	 */
+	private getServerCode(code: string): string {
+		return this.languageCodes.get(code.toLowerCase()) ?? code;
+	}
+
+	private getSettings(): LibreTranslateSettings {
+		const settingsData = localStorage.getItem(LIBRETRANSLATE_LOCAL_STORAGE_KEY);
+		const settings: Partial<LibreTranslateSettings> = settingsData ? JSON.parse(settingsData) : {};
+		return {
+			baseUrl: settings.baseUrl || LIBRETRANSLATE_DEFAULT_URL,
+			month: settings.month ?? this.textBatchService.getCurrentMonth(),
+			character_count: settings.character_count ?? 0
+		};
+	}
+
+	private saveSettings(settings: LibreTranslateSettings): void {
+		localStorage.setItem(LIBRETRANSLATE_LOCAL_STORAGE_KEY, JSON.stringify(settings));
+	}
+}
@@ -0,0 +1,70 @@
+import {TestBed} from '@angular/core/testing';
+import {HttpClient} from '@angular/common/http';
+import {of} from 'rxjs';
+import {LLM_SETTINGS_LOCAL_STORAGE_KEY, LLM_USAGE_LOCAL_STORAGE_KEY} from '../constants/api.constants';
+import {TranslatedText} from '../models/translated-text.model';
+import {LlmTranslationService} from './llm-translation.service';
+
+describe('LlmTranslationService', () => {
+	let service: LlmTranslationService;
+	let httpClient: jasmine.SpyObj<HttpClient>;
+
+	/**
+	 * Translate two lines, the model giving an answer
+	 * @param content The answer of the model
+	 * @returns The translations, or the error of the answer
+	 */
+	const translate = (content: string): { translations?: TranslatedText[], error?: string } => {
+		httpClient.post.and.returnValue(of({choices: [{message: {content}, finish_reason: 'stop'}], usage: {total_tokens: 42}}));
+		const result: { translations?: TranslatedText[], error?: string } = {};
+		service.translateMultiple(['Hello.', 'Bye.'], '', 'fr').subscribe({
+			next: translations => result.translations = translations,
+			error: error => result.error = error.message
+		});
+		return result;
+	};
+
+	beforeEach(() => {
+		localStorage.removeItem(LLM_USAGE_LOCAL_STORAGE_KEY);
+		localStorage.setItem(LLM_SETTINGS_LOCAL_STORAGE_KEY, JSON.stringify({model: 'test-model'}));
+		httpClient = jasmine.createSpyObj<HttpClient>('HttpClient', ['get', 'post']);
+
+		TestBed.configureTestingModule({providers: [{provide: HttpClient, useValue: httpClient}]});
+		service = TestBed.inject(LlmTranslationService);
+	});
+
+	afterEach(() => {
+		localStorage.removeItem(LLM_SETTINGS_LOCAL_STORAGE_KEY);
+		localStorage.removeItem(LLM_USAGE_LOCAL_STORAGE_KEY);
+	});
+
+	it('should place the translations by id and count the tokens of the answer', () => {
+		const result = translate('{"translations": [{"id": 1, "text": "Au revoir."}, {"id": 0, "text": "Bonjour."}]}');
+
+		expect(result.translations).toEqual([{text: 'Bonjour.'}, {text: 'Au revoir.'}]);
+		expect(service.getTokenCount()).toEqual(42);
+	});
+
+	it('should read an answer wrapped in a Markdown code block', () => {
+		const result = translate('```json\n{"translations": [{"id": 0, "text": "Bonjour."}, {"id": 1, "text": "Au revoir."}]}\n```');
+
+		expect(result.translations?.map(translation => translation.text)).toEqual(['Bonjour.', 'Au revoir.']);
+	});
+
+	it('should reject the answers that do not translate each line exactly once', () => {
+		expect(translate('Bonjour.').error).toEqual('The answer of the model is not valid JSON');
+		expect(translate('{"lines": []}').error).toEqual('The answer of the model has no "translations" array');
+		expect(translate('{"translations": [{"id": 0, "text": "Bonjour."}]}').error).toEqual('The answer of the model misses line 1');
+		expect(translate('{"translations": [{"id": 0, "text": "A"}, {"id": 0, "text": "B"}]}').error).toEqual('The answer of the model translates line 0 twice');
+		expect(translate('{"translations": [{"id": 2, "text": "Bonjour."}]}').error).toContain('has an invalid translation');
+		expect(translate('{"translations": [{"id": "0", "text": "Bonjour."}]}').error).toContain('has an invalid translation');
+	});
+
+	it('should reject an answer cut off by the token limit', () => {
+		httpClient.post.and.returnValue(of({choices: [{message: {content: '{"translations": ['}, finish_reason: 'length'}]}));
+		let error = '';
+		service.translateMultiple(['Hello.'], '', 'fr').subscribe({error: err => error = err.message});
+
+		expect(error).toEqual('The answer of the model was cut off');
+	});
+});
@@ -0,0 +1,342 @@
+import {Injectable} from '@angular/core';
+import {HttpClient, HttpHeaders} from '@angular/common/http';
+import {from, Observable, of, throwError} from 'rxjs';
+import {concatMap, map, toArray} from 'rxjs/operators';
+import {ChatCompletionResponse} from '../models/chat-completion-response.model';
+import {GlossaryEntry} from '../models/glossary-entry.model';
+import {LlmSettings} from '../models/llm-settings.model';
+import {LlmUsage} from '../models/llm-usage.model';
+import {ModelListResponse} from '../models/model-list-response.model';
+import {TextContext} from '../models/text-context.model';
+import {TranslatedText} from '../models/translated-text.model';
+import {TranslationOptions} from '../models/translation-options.model';
+import {TextBatchService} from './text-batch.service';
+import {
+	LLM_CHARS_PER_TOKEN,
+	LLM_DEFAULT_SYSTEM_PROMPT,
+	LLM_DEFAULT_URL,
+	LLM_DEFAULT_USER_PROMPT,
+	LLM_MAX_LINES_PER_REQUEST,
+	LLM_SETTINGS_LOCAL_STORAGE_KEY,
+	LLM_USAGE_LOCAL_STORAGE_KEY
+} from '../constants/api.constants';
+
+@Injectable({
+	providedIn: 'root'
+})
+export class LlmTranslationService {
+	constructor(
+		private readonly httpClient: HttpClient,
+		private readonly textBatchService: TextBatchService
+	) {
+	}
+
+	/**
+	 * Translate multiple texts with a chat completions API
+	 * Lines are sent in small groups of the same scene, with their speaker, the dialogue around them and the glossary terms they contain
+	 * @param texts Array of texts to translate, with Ren'Py markup masked as XML tags
+	 * @param apiKey Optional API key, required by hosted APIs
+	 * @param targetLang The target language code
+	 * @param options Optional source language and context window
+	 * @param contexts Optional speaker, scene and surrounding dialogue of each text
+	 * @returns Observable of translated texts in the same order as input
+	 */
+	translateMultiple(
+		texts: string[],
+		apiKey: string,
+		targetLang: string,
+		options: TranslationOptions = {},
+		contexts: TextContext[] = []
+	): Observable<TranslatedText[]> {
+		if (!texts.length) {
+			return of([]);
+		}
+
+		const settings = this.getSettings();
+		if (!settings.model) {
+			return throwError(() => new Error('No model is set'));
+		}
+
+		const translations: TranslatedText[] = new Array(texts.length);
+
+		// Local servers answer one request at a time
+		return from(this.groupLines(texts, contexts, options.contextWindow ?? 0)).pipe(
+			concatMap(group => {
+				const lines = group.indexes.map(index => ({text: texts[index], speaker: contexts[index]?.speaker ?? ''}));
+				return this.translateGroup(lines, group.context, apiKey, targetLang, options.sourceLang, settings).pipe(
+					map(translated => group.indexes.forEach((index, i) => translations[index] = {text: translated[i]}))
+				);
+			}),
+			toArray(),
+			map(() => translations)
+		);
+	}
+
+	/**
+	 * List the models of the server
+	 * @param apiKey Optional API key
+	 * @returns Observable of the model identifiers, sorted
+	 */
+	listModels(apiKey: string): Observable<string[]> {
+		return this.httpClient.get<ModelListResponse>(`${this.getSettings().baseUrl}/models`, {headers: this.createHeaders(apiKey)}).pipe(
+			map(response => (Array.isArray(response?.data) ? response.data : [])
+				.map(model => typeof model?.id === 'string' ? model.id : '')
+				.filter(id => id)
+				.sort())
+		);
+	}
+
+	/**
+	 * Estimate the tokens used to translate texts, before translating them
+	 * The texts are counted in the prompt and in the answer, the prompt templates once per request
+	 * @param texts Array of texts to translate
+	 * @returns The estimated token count
+	 */
+	estimateTokens(texts: string[]): number {
+		if (!texts.length) {
+			return 0;
+		}
+
+		const settings = this.getSettings();
+		const textTokens = texts.reduce((total, text) => total + Math.ceil(text.length / LLM_CHARS_PER_TOKEN), 0);
+		const promptTokens = Math.ceil((settings.systemPrompt.length + settings.userPrompt.length) / LLM_CHARS_PER_TOKEN);
+		return textTokens * 2 + promptTokens * Math.ceil(texts.length / LLM_MAX_LINES_PER_REQUEST);
+	}
+
+	/**
+	 * Get the tokens used during the current month
+	 * @returns The token count reported by the API, estimated for the servers reporting none
+	 */
+	getTokenCount(): number {
+		const usageData = localStorage.getItem(LLM_USAGE_LOCAL_STORAGE_KEY);
+		const usage: LlmUsage | null = usageData ? JSON.parse(usageData) : null;
+		return usage?.month === this.textBatchService.getCurrentMonth() ? usage.token_count : 0;
+	}
+
+	/**
+	 * Get the server, the model, the prompt templates and the glossary
+	 * @returns The stored settings, the defaults for the ones never set
+	 */
+	getSettings(): LlmSettings {
+		const settingsData = localStorage.getItem(LLM_SETTINGS_LOCAL_STORAGE_KEY);
+		const settings: Partial<LlmSettings> = settingsData ? JSON.parse(settingsData) : {};
+		return {
+			baseUrl: settings.baseUrl || LLM_DEFAULT_URL,
+			model: settings.model ?? '',
+			systemPrompt: settings.systemPrompt || LLM_DEFAULT_SYSTEM_PROMPT,
+			userPrompt: settings.userPrompt || LLM_DEFAULT_USER_PROMPT,
+			glossary: settings.glossary ?? []
+		};
+	}
+
+	/**
+	 * Store the settings, the URL without a trailing slash
+	 * @param settings The settings, empty prompt templates reset to the defaults
+	 */
+	saveSettings(settings: LlmSettings): void {
+		localStorage.setItem(LLM_SETTINGS_LOCAL_STORAGE_KEY, JSON.stringify({
+			...settings,
+			baseUrl: settings.baseUrl.trim().replace(/\/+$/, '') || LLM_DEFAULT_URL
+		}));
+	}
+
+	/**
+	 * Split the lines into requests: consecutive lines of the same scene, at most LLM_MAX_LINES_PER_REQUEST
+	 * @param texts Array of texts to translate
+	 * @param contexts Scene and surrounding dialogue of each text, empty when unknown
+	 * @param window Number of dialogue lines sent around the lines, 0 to send none
+	 * @returns The indexes of the texts of each request and the dialogue before and after them
+	 */
+	private groupLines(texts: string[], contexts: TextContext[], window: number): { indexes: number[], context: { before: string[], after: string[] } }[] {
+		const groups: { indexes: number[], context: { before: string[], after: string[] } }[] = [];
+		const hasContexts = contexts.length === texts.length;
+
+		texts.forEach((_, index) => {
+			const current = groups.at(-1);
+			const scene = hasContexts ? contexts[index].scene : null;
+			const sameScene = current && (!hasContexts || contexts[current.indexes[0]].scene === scene)
+				&& (scene === null || current.indexes.at(-1) === index - 1);
+
+			if (current && sameScene && current.indexes.length < LLM_MAX_LINES_PER_REQUEST) {
+				current.indexes.push(index);
+			} else {
+				groups.push({indexes: [index], context: {before: [], after: []}});
+			}
+		});
+
+		// Strings have no scene: they are sent without dialogue around them
+		if (window > 0 && hasContexts) {
+			for (const group of groups) {
+				if (contexts[group.indexes[0]].scene !== null) {
+					group.context = {before: contexts[group.indexes[0]].before, after: contexts[group.indexes.at(-1)!].after};
+				}
+			}
+		}
+		return groups;
+	}
+
+	/**
+	 * Translate the lines of a request
+	 * @param lines Texts to translate with their speaker, empty when unknown
+	 * @param context Dialogue before and after the lines
+	 * @param apiKey Optional API key
+	 * @param targetLang The target language code
+	 * @param sourceLang Optional source language code
+	 * @param settings Model and prompt templates
+	 * @returns Observable of the translations, in the order of the lines
+	 */
+	private translateGroup(
+		lines: { text: string, speaker: string }[],
+		context: { before: string[], after: string[] },
+		apiKey: string,
+		targetLang: string,
+		sourceLang: string | undefined,
+		settings: LlmSettings
+	): Observable<string[]> {
+		const variables: Record<string, string> = {
+			sourceLanguage: sourceLang ? this.getLanguageName(sourceLang) : 'the language of the lines',
+			targetLanguage: this.getLanguageName(targetLang),
+			glossary: this.formatGlossary(settings.glossary, lines.map(line => line.text)),
+			context: this.formatContext(context),
+			// One line per entry, the ids are the positions in the request
+			lines: `[\n${lines.map((line, id) => JSON.stringify(line.speaker ? {id, speaker: line.speaker, text: line.text} : {id, text: line.text})).join(',\n')}\n]`
+		};
+
+		const body = {
+			model: settings.model,
+			messages: [
+				{role: 'system', content: this.renderTemplate(settings.systemPrompt, variables)},
+				{role: 'user', content: this.renderTemplate(settings.userPrompt, variables)}
+			],
+			response_format: {type: 'json_object'}
+		};
+
+		return this.httpClient.post<ChatCompletionResponse>(`${settings.baseUrl}/chat/completions`, body, {headers: this.createHeaders(apiKey)}).pipe(
+			map(response => {
+				const choice = response?.choices?.[0];
+				if (choice?.finish_reason === 'length') {
+					throw new Error('The answer of the model was cut off');
+				}
+
+				const content = choice?.message?.content ?? '';
+				this.addTokens(response.usage?.total_tokens
+					?? Math.ceil((body.messages.reduce((total, message) => total + message.content.length, 0) + content.length) / LLM_CHARS_PER_TOKEN));
+				return this.parseAnswer(content, lines.length);
+			})
+		);
+	}
+
+	/**
+	 * Read the translations of an answer, strictly
+	 * The answer must be a JSON object with a "translations" array holding each id of the request exactly once
+	 * @param content The answer of the model
+	 * @param count Number of lines of the request
+	 * @returns The translations, in the order of the ids
+	 */
+	private parseAnswer(content: string, count: number): string[] {
+		// Some models wrap the JSON in a Markdown code block despite the JSON response format
+		const json = content.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+
+		let answer: unknown;
+		try {
+			answer = JSON.parse(json);
+		} catch {
+			throw new Error('The answer of the model is not valid JSON');
+		}
+
+		const entries: unknown = typeof answer === 'object' && answer !== null && 'translations' in answer ? answer.translations : undefined;
+		if (!Array.isArray(entries)) {
+			throw new Error('The answer of the model has no "translations" array');
+		}
+
+		const translations: (string | undefined)[] = Array.from({length: count});
+		for (const entry of entries as unknown[]) {
+			const id = typeof entry === 'object' && entry !== null && 'id' in entry ? entry.id : undefined;
+			const text = typeof entry === 'object' && entry !== null && 'text' in entry ? entry.text : undefined;
+			if (typeof id !== 'number' || !Number.isInteger(id) || id < 0 || id >= count || typeof text !== 'string') {
+				throw new Error(`The answer of the model has an invalid translation: ${JSON.stringify(entry)}`);
+			}
+			if (translations[id] !== undefined) {
+				throw new Error(`The answer of the model translates line ${id} twice`);
+			}
+			translations[id] = text;
+		}
+
+		const missing = translations.findIndex(translation => translation === undefined);
+		if (missing !== -1) {
+			throw new Error(`The answer of the model misses line ${missing}`);
+		}
+		return translations as string[];
+	}
+
+	/**
+	 * Replace the variables of a prompt template
+	 * @param template The template, with variables such as {{targetLanguage}}
+	 * @param variables Value of each variable
+	 * @returns The prompt, unknown variables kept as they are
+	 */
+	private renderTemplate(template: string, variables: Record<string, string>): string {
+		return template
+			.replace(/\{\{\s*(\w+)\s*\}\}/g, (match: string, name: string) => variables[name] ?? match)
+			// Empty variables leave blank lines behind
+			.replace(/\n{3,}/g, '\n\n')
+			.trim();
+	}
+
+	/**
+	 * Describe the glossary terms found in the lines
+	 * @param glossary Terms of the glossary
+	 * @param texts Texts of the request
+	 * @returns The instruction listing the terms, empty when none is found
+	 */
+	private formatGlossary(glossary: GlossaryEntry[], texts: string[]): string {
+		const content = texts.join('\n').toLowerCase();
+		const terms = glossary.filter(entry => content.includes(entry.source.toLowerCase()));
+		if (!terms.length) {
+			return '';
+		}
+		return `Translate these terms as follows:\n${terms.map(entry => `- ${entry.source} → ${entry.target}`).join('\n')}`;
+	}
+
+	/**
+	 * Describe the dialogue around the lines
+	 * @param context Dialogue before and after the lines
+	 * @returns The dialogue, empty when none is sent
+	 */
+	private formatContext(context: { before: string[], after: string[] }): string {
+		const sections: string[] = [];
+		if (context.before.length) {
+			sections.push(`Dialogue before the lines, for context only:\n${context.before.join('\n')}`);
+		}
+		if (context.after.length) {
+			sections.push(`Dialogue after the lines, for context only:\n${context.after.join('\n')}`);
+		}
+		return sections.join('\n\n');
+	}
+
+	/**
+	 * Get the English name of a language for the prompt
+	 * @param code The language code, e.g. "pt-br"
+	 * @returns The name, e.g. "Brazilian Portuguese", the code if unknown
+	 */
+	private getLanguageName(code: string): string {
+		try {
+			return new Intl.DisplayNames(['en'], {type: 'language'}).of(code) ?? code;
+		} catch {
+			return code;
+		}
+	}
+
+	/**
+	 * Add the tokens of an answer to the count of the current month
+	 * @param tokenCount Number of tokens used
+	 */
+	private addTokens(tokenCount: number): void {
+		const usage: LlmUsage = {month: this.textBatchService.getCurrentMonth(), token_count: this.getTokenCount() + tokenCount};
+		localStorage.setItem(LLM_USAGE_LOCAL_STORAGE_KEY, JSON.stringify(usage));
+	}
+
+	private createHeaders(apiKey: string): HttpHeaders {
+		return apiKey ? new HttpHeaders({'Authorization': `Bearer ${apiKey}`}) : new HttpHeaders();
+	}
+}
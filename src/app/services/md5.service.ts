@@ -0,0 +1,93 @@
+import {Injectable} from '@angular/core';
+
+// Per-round shift amounts of the MD5 algorithm
+const SHIFTS = [
+	7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+	5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+	4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+	6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+// Per-round constants: floor(abs(sin(i + 1)) * 2^32)
+const CONSTANTS = Array.from({length: 64}, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0);
+
+@Injectable({
+	providedIn: 'root'
+})
+export class Md5Service {
+
+	/**
+	 * Compute the MD5 digest of a text, as Ren'Py does to build translation identifiers
+	 * Web Crypto does not provide MD5, hence this implementation
+	 * @param text Text to hash, encoded as UTF-8
+	 * @returns The digest as a lowercase hexadecimal string
+	 */
+	hash(text: string): string {
+		const bytes = new TextEncoder().encode(text);
+
+		// Pad the message to a multiple of 64 bytes, ending with its length in bits
+		const paddedLength = (((bytes.length + 8) >> 6) + 1) << 6;
+		const padded = new Uint8Array(paddedLength);
+		padded.set(bytes);
+		padded[bytes.length] = 0x80;
+		const view = new DataView(padded.buffer);
+		view.setUint32(paddedLength - 8, (bytes.length << 3) >>> 0, true);
+		view.setUint32(paddedLength - 4, Math.floor(bytes.length / 0x20000000), true);
+
+		let a0 = 0x67452301;
+		let b0 = 0xefcdab89;
+		let c0 = 0x98badcfe;
+		let d0 = 0x10325476;
+
+		for (let offset = 0; offset < paddedLength; offset += 64) {
+			let a = a0;
+			let b = b0;
+			let c = c0;
+			let d = d0;
+
+			for (let i = 0; i < 64; i++) {
+				let f: number;
+				let g: number;
+				if (i < 16) {
+					f = (b & c) | (~b & d);
+					g = i;
+				} else if (i < 32) {
+					f = (d & b) | (~d & c);
+					g = (5 * i + 1) % 16;
+				} else if (i < 48) {
+					f = b ^ c ^ d;
+					g = (3 * i + 5) % 16;
+				} else {
+					f = c ^ (b | ~d);
+					g = (7 * i) % 16;
+				}
+
+				const sum = (a + f + CONSTANTS[i] + view.getUint32(offset + g * 4, true)) | 0;
+				a = d;
+				d = c;
+				c = b;
+				b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+			}
+
+			a0 = (a0 + a) | 0;
+			b0 = (b0 + b) | 0;
+			c0 = (c0 + c) | 0;
+			d0 = (d0 + d) | 0;
+		}
+
+		return [a0, b0, c0, d0].map(word => this.toHexLittleEndian(word)).join('');
+	}
+
+	/**
+	 * Write a 32-bit word as hexadecimal, least significant byte first
+	 * @param word Word to write
+	 * @returns Eight hexadecimal characters
+	 */
+	private toHexLittleEndian(word: number): string {
+		let hex = '';
+		for (let i = 0; i < 4; i++) {
+			hex += ((word >>> (i * 8)) & 0xff).toString(16).padStart(2, '0');
+		}
+		return hex;
+	}
+}
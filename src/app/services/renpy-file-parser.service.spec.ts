@@ -0,0 +1,194 @@
+import {TestBed} from '@angular/core/testing';
+import {RetranslateScope} from '../models/retranslate-options.model';
+import {RenpyFileParserService} from './renpy-file-parser.service';
+
+describe('RenpyFileParserService', () => {
+	let service: RenpyFileParserService;
+
+	const content = [
+		'# game/script.rpy:10',
+		'translate french start_a170b500:',
+		'',
+		'    # e "Hello, world."',
+		'    e ""',
+		'',
+		'# game/script.rpy:12',
+		'translate french start_b2c3d4e5:',
+		'',
+		'    # "The sun rises."',
+		'    "Le soleil se lève."',
+		'',
+		'translate french strings:',
+		'',
+		'    # game/screens.rpy:5',
+		'    old "Start"',
+		'    new ""',
+		'',
+		'    old "Quit"',
+		'    new "Quitter"',
+		''
+	].join('\n');
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		service = TestBed.inject(RenpyFileParserService);
+	});
+
+	it('should parse dialogue blocks into units keyed by their block id', () => {
+		const [hello, sunrise] = service.parseUnits(content);
+
+		expect(hello).toEqual(jasmine.objectContaining({
+			blockId: 'start_a170b500',
+			kind: 'dialogue',
+			language: 'french',
+			sourceText: 'Hello, world.',
+			command: 'e',
+			targetLineIndex: 4,
+			indentation: '    ',
+			existingTranslation: '',
+			sourceComment: '# game/script.rpy:10'
+		}));
+		expect(sunrise).toEqual(jasmine.objectContaining({
+			blockId: 'start_b2c3d4e5',
+			command: '',
+			targetLineIndex: 10,
+			existingTranslation: 'Le soleil se lève.'
+		}));
+	});
+
+	it('should parse the old/new pairs of a strings block', () => {
+		const strings = service.parseUnits(content).filter(unit => unit.kind === 'strings');
+
+		expect(strings.map(unit => [unit.sourceText, unit.targetLineIndex, unit.existingTranslation])).toEqual([
+			['Start', 16, ''],
+			['Quit', 19, 'Quitter']
+		]);
+		expect(strings[0].sourceComment).toEqual('# game/screens.rpy:5');
+		expect(strings[1].sourceComment).toEqual('');
+	});
+
+	it('should pair the source and target statements of a block whatever its shape', () => {
+		const block = [
+			'# game/script.rpy:20',
+			'translate french start_c3d4e5f6:',
+			'',
+			'    # nvl clear',
+			'    # voice "e_001.ogg"',
+			'    # e "First line."',
+			'    # extend "And more."',
+			'    nvl clear',
+			'',
+			'    voice "e_001.ogg"',
+			'    e ""',
+			'    extend ""',
+			'    nvl clear',
+			''
+		].join('\n');
+
+		expect(service.parseUnits(block).map(unit => [unit.sourceText, unit.command, unit.targetLineIndex, unit.sourceComment])).toEqual([
+			['First line.', 'e', 10, '# game/script.rpy:20'],
+			['And more.', 'extend', 11, '# game/script.rpy:20']
+		]);
+	});
+
+	it('should join the physical lines of triple-quoted and multi-line strings', () => {
+		const block = [
+			'translate french start_d4e5f6a7:',
+			'',
+			'    # e "First paragraph goes on.\\nSecond paragraph."',
+			'    e """Premier paragraphe',
+			'    continue.',
+			'',
+			'    Second paragraphe."""',
+			'',
+			'translate french start_e5f6a7b8:',
+			'',
+			'    # "A string broken over two lines."',
+			'    "Une chaîne coupée',
+			'    sur deux lignes."',
+			'',
+			'translate french start_f6a7b8c9:',
+			'',
+			'    # e "After."',
+			'    e ""',
+			''
+		].join('\n');
+
+		const [monologue, broken, after] = service.parseUnits(block);
+
+		expect(monologue).toEqual(jasmine.objectContaining({
+			sourceText: 'First paragraph goes on.\nSecond paragraph.',
+			existingTranslation: 'Premier paragraphe continue.\nSecond paragraphe.',
+			tripleQuoted: true,
+			targetLineIndex: 3,
+			targetLineCount: 4
+		}));
+		expect(broken).toEqual(jasmine.objectContaining({
+			sourceText: 'A string broken over two lines.',
+			existingTranslation: 'Une chaîne coupée sur deux lignes.',
+			tripleQuoted: false,
+			targetLineIndex: 11,
+			targetLineCount: 2
+		}));
+		expect(after.targetLineIndex).toEqual(17);
+	});
+
+	it('should report the lines it could not understand', () => {
+		const file = [
+			'translate french strings:',
+			'',
+			'    old "Start"',
+			'    new ""',
+			'    old "Start"',
+			'    new "Démarrer"',
+			'    new "Quitter"',
+			'      old "Load"',
+			'      new ""',
+			'',
+			'translate french start_a170b500:',
+			'',
+			'    # e "Hello."',
+			'',
+			'translate french'
+		].join('\n');
+
+		const result = service.parse(file);
+
+		expect(result.diagnostics.map(diagnostic => [diagnostic.lineNumber, diagnostic.reason])).toEqual([
+			[5, 'duplicate-old'],
+			[7, 'orphan-new'],
+			[8, 'mismatched-indentation'],
+			[9, 'mismatched-indentation'],
+			[11, 'unrecognised-shape'],
+			[15, 'unrecognised-shape']
+		]);
+		expect(result.diagnostics[1].header).toEqual('translate french strings:');
+		expect(result.units.map(unit => unit.sourceText)).toEqual(['Start', 'Start', 'Load']);
+	});
+
+	it('should report an unterminated string', () => {
+		const result = service.parse('translate french start_a170b500:\n    # e "Hello."\n    e "Bonjour.\n');
+
+		expect(result.diagnostics.map(diagnostic => [diagnostic.lineNumber, diagnostic.reason])).toContain([3, 'unterminated-string']);
+	});
+
+	it('should only keep the units whose target line is still empty', () => {
+		expect(service.extractLines(content)).toEqual(['Hello, world.', 'Start']);
+	});
+
+	it('should select the units to retranslate according to the scope', () => {
+		const units = service.parseUnits(content.replace('new "Quitter"', 'new "Quit"'));
+		const select = (scope: RetranslateScope, fromLine = 1, toLine = 1) =>
+			service.selectUnits(units, {scope, fromLine, toLine}).map(unit => unit.sourceText);
+
+		expect(select('untranslated')).toEqual(['Hello, world.', 'Start']);
+		expect(select('all')).toEqual(['Hello, world.', 'The sun rises.', 'Start', 'Quit']);
+		expect(select('range', 11, 17)).toEqual(['The sun rises.', 'Start']);
+		expect(select('identical')).toEqual(['Quit']);
+	});
+
+	it('should detect the language identifiers of the translate blocks', () => {
+		expect(service.detectLanguages(content)).toEqual(['french']);
+		expect(service.parseUnits('')).toEqual([]);
+	});
+});
@@ -1,435 +1,516 @@
 import {Injectable} from '@angular/core';
+import {
+	RENPY_DIALOGUE_HEADER_REGEX,
+	RENPY_GENERATED_ID_REGEX,
+	RENPY_NON_DIALOGUE_STATEMENTS,
+	RENPY_SOURCE_COMMENT_PREFIX,
+	RENPY_STRINGS_HEADER_REGEX,
+	RENPY_TRANSLATE_STATEMENT_REGEX,
+	RENPY_UNTRANSLATED_BLOCK_REGEX
+} from '../constants/renpy.constants';
+import {ParserDiagnosticReason} from '../models/parser-diagnostic.model';
+import {RenpyLine} from '../models/renpy-line.model';
+import {RenpyParseResult} from '../models/renpy-parse-result.model';
+import {RetranslateOptions} from '../models/retranslate-options.model';
+import {TextContext} from '../models/text-context.model';
+import {TranslationUnit} from '../models/translation-unit.model';
+import {RenpyStringService} from './renpy-string.service';
 
 @Injectable({
 	providedIn: 'root'
 })
 export class RenpyFileParserService {
+	constructor(private readonly renpyStringService: RenpyStringService) {
+	}
 
 	/**
-	 * Extracts lines that need to be translated from the file content
+	 * Parses the file content into translation units in a single pass
 	 * @param fileContent The content of the file
-	 * @returns Array of strings to be translated
+	 * @returns Array of translation units, including the ones already translated
 	 */
-	extractLines(fileContent: string): string[] {
+	parseUnits(fileContent: string): TranslationUnit[] {
+		return this.parse(fileContent).units;
+	}
+
+	/**
+	 * Parses the file content into translation units and reports the lines that could not be understood
+	 * @param fileContent The content of the file
+	 * @returns The translation units and the diagnostics of the file
+	 */
+	parse(fileContent: string): RenpyParseResult {
+		const result: RenpyParseResult = {units: [], diagnostics: []};
 		if (!fileContent) {
-			return [];
+			return result;
 		}
 
-		const lines = fileContent.split('\n');
-		const linesToTranslate: string[] = [];
+		const lines = this.splitLogicalLines(fileContent);
+		const oldTexts = new Set<string>();
 		let i = 0;
 
 		while (i < lines.length) {
-			const line = lines[i].trim();
+			const line = lines[i].text.trim();
 
 			// === TYPE A : Dialogue block ===
-			if (line.startsWith('# game/') && lines[i + 1]?.trim().startsWith('translate french')) {
-				i = this.processDialogueBlock(lines, i, linesToTranslate);
+			if (this.isDialogueHeader(line)) {
+				i = this.processDialogueBlock(lines, i, result);
 				continue;
 			}
 
 			// === TYPE B : Strings block ===
-			else if (line.startsWith('translate french strings:')) {
-				i = this.processStringsBlock(lines, i, linesToTranslate);
+			else if (this.isStringsHeader(line)) {
+				i = this.processStringsBlock(lines, i, oldTexts, result);
 				continue;
 			}
 
+			// Translate statements we do not know how to read (python and style blocks are not translated)
+			if (RENPY_TRANSLATE_STATEMENT_REGEX.test(line) && !RENPY_UNTRANSLATED_BLOCK_REGEX.test(line)) {
+				this.addDiagnostic(result, lines[i], '', 'unrecognised-shape');
+			} else if (!line.startsWith('#') && this.renpyStringService.hasUnterminatedLiteral(line)) {
+				this.addDiagnostic(result, lines[i], '', 'unterminated-string');
+			}
+
 			i++; // Move to the next line
 		}
 
-		return linesToTranslate;
+		result.diagnostics.sort((a, b) => a.lineNumber - b.lineNumber);
+		return result;
 	}
 
 	/**
-	 * Extract command from a line
-	 * @param line Line containing command to extract
-	 * @returns Extracted command
+	 * Extracts lines that need to be translated from the file content
+	 * @param fileContent The content of the file
+	 * @returns Array of strings to be translated
 	 */
-	extractCommand(line: string): string {
-		// Remove spaces and comment if present at the beginning
-		const cleanedLine = line.trim().replace(/^#\s*/, '');  // Remove # if present at the beginning of the line
-
-		// Use RegExp to capture the command before the quotes
-		const match = new RegExp(/^([^"]+)\s*"/).exec(cleanedLine);
+	extractLines(fileContent: string): string[] {
+		return this.getUnitsToTranslate(this.parseUnits(fileContent)).map(unit => unit.sourceText);
+	}
 
-		if (match) {
-			// match[1]: it's the command we want to extract
-			return match[1].trim(); // Return only the command (e.g., "sh_i neutral")
-		}
+	/**
+	 * Keeps only the units whose target line is still empty
+	 * @param units Array of parsed translation units
+	 * @returns Array of units to be translated
+	 */
+	getUnitsToTranslate(units: TranslationUnit[]): TranslationUnit[] {
+		return units.filter(unit => !unit.existingTranslation);
+	}
 
-		// If the line doesn't match the expected format, try to extract a command anyway
-		// This can happen with lines like "nvl clear" that don't have quotes
-		const fallbackMatch = cleanedLine.split(/\s+/);
-		if (fallbackMatch.length > 0) {
-			return fallbackMatch[0]; // Return the first word as the command
+	/**
+	 * Keeps the units to send for translation according to the retranslate options
+	 * @param units Array of parsed translation units
+	 * @param options Which units to translate, existing translations included or not
+	 * @returns Array of units to be translated
+	 */
+	selectUnits(units: TranslationUnit[], options: RetranslateOptions): TranslationUnit[] {
+		switch (options.scope) {
+			case 'all':
+				return units;
+			case 'range':
+				return units.filter(unit => unit.targetLineIndex + 1 >= options.fromLine && unit.targetLineIndex + 1 <= options.toLine);
+			case 'identical':
+				return units.filter(unit => unit.existingTranslation.trim() === unit.sourceText.trim());
+			default:
+				return this.getUnitsToTranslate(units);
 		}
-
-		return ''; // If no command is found, return an empty string
 	}
 
 	/**
-	 * Finds lines in the file content that need to be filled with translations
+	 * Detects the Ren'Py language identifiers used by the translate blocks of the file
 	 * @param fileContent The content of the file
-	 * @returns Array of strings to be filled with translations
+	 * @returns Array of unique language identifiers (e.g. "french", "spanish") in order of appearance
 	 */
-	findLinesToFill(fileContent: string): string[] {
+	detectLanguages(fileContent: string): string[] {
 		if (!fileContent) {
 			return [];
 		}
 
-		const lines = fileContent.split('\n');
-		const linesToFill: string[] = [];
-		let i = 0;
+		const languages: string[] = [];
 
-		while (i < lines.length) {
-			let line = lines[i].trim();
-
-			// === TYPE A : Dialogue block ===
-			if (line.startsWith('# game/') && lines[i + 1]?.trim().startsWith('translate french')) {
-				i = this.findLinesToFillInDialogueBlock(lines, i, linesToFill);
-				continue;
+		for (const rawLine of fileContent.split('\n')) {
+			const line = rawLine.trim();
+			const language = RENPY_STRINGS_HEADER_REGEX.exec(line)?.[1] ?? RENPY_DIALOGUE_HEADER_REGEX.exec(line)?.[1];
+			if (language && !languages.includes(language)) {
+				languages.push(language);
 			}
+		}
 
-			// === TYPE B : Strings block ===
-			else if (line.startsWith('translate french strings:')) {
-				i = this.findLinesToFillInStringsBlock(lines, i, linesToFill);
-				continue;
+		return languages;
+	}
+
+	/**
+	 * Split the file content into logical lines, joining the physical lines of string literals
+	 * spanning several lines (triple-quoted strings, or regular strings containing line breaks)
+	 * Comments are never joined: Ren'Py writes the source statements of a translation file on a single line
+	 * @param fileContent The content of the file
+	 * @returns Array of logical lines
+	 */
+	splitLogicalLines(fileContent: string): RenpyLine[] {
+		const physicalLines = fileContent.split('\n');
+		const lines: RenpyLine[] = [];
+		let i = 0;
+
+		while (i < physicalLines.length) {
+			let text = physicalLines[i];
+			let lineCount = 1;
+
+			if (!text.trim().startsWith('#')) {
+				// An unterminated string never swallows the next translate block
+				while (i + lineCount < physicalLines.length && !RENPY_TRANSLATE_STATEMENT_REGEX.test(physicalLines[i + lineCount])
+					&& this.renpyStringService.hasUnterminatedLiteral(text)) {
+					text += '\n' + physicalLines[i + lineCount];
+					lineCount++;
+				}
 			}
 
-			i++; // Move to the next line
+			lines.push({index: i, lineCount, text});
+			i += lineCount;
 		}
 
-		return linesToFill;
+		return lines;
 	}
 
 	/**
-	 * Process a dialogue block (Type A) and extract text to translate
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param linesToTranslate Array to store extracted text
-	 * @returns New line index after processing the block
+	 * Check if a line is a dialogue block header (e.g. "translate spanish start_a170b500:")
+	 * @param line Line to check
+	 * @returns True if the line opens a dialogue block
 	 */
-	private processDialogueBlock(lines: string[], i: number, linesToTranslate: string[]): number {
-		const comment1 = lines[i + 3]?.trim();
-		const comment2 = lines[i + 4]?.trim();
+	isDialogueHeader(line: string): boolean {
+		return RENPY_DIALOGUE_HEADER_REGEX.test(line.trim());
+	}
 
-		// Special case: two commented lines (with # and nvl clear or other command)
-		if (comment1?.startsWith('#') && comment2?.startsWith('#')) {
-			return this.processTwoCommentedLinesCase(lines, i, linesToTranslate);
-		}
+	/**
+	 * Check if a line is a strings block header (e.g. "translate spanish strings:")
+	 * @param line Line to check
+	 * @returns True if the line opens a strings block
+	 */
+	isStringsHeader(line: string): boolean {
+		return RENPY_STRINGS_HEADER_REGEX.test(line.trim());
+	}
 
-		// Classic case: a single commented line
-		else if (comment1?.startsWith('#')) {
-			return this.processSingleCommentedLineCase(lines, i, linesToTranslate);
+	/**
+	 * Check if a statement is a say statement holding text to translate
+	 * @param statement Trimmed statement without comment marker
+	 * @returns True for dialogue, narration and extend statements
+	 */
+	isDialogueStatement(statement: string): boolean {
+		const keyword = statement.split(/[\s(]/)[0];
+		if (RENPY_NON_DIALOGUE_STATEMENTS.includes(keyword) || keyword.startsWith('$') || keyword.startsWith('renpy.')) {
+			return false;
 		}
-
-		return i + 5;  // Move to the next block if format not recognized
+		return this.renpyStringService.parseStatement(statement) !== null;
 	}
 
 	/**
-	 * Process a special case with two commented lines in a dialogue block
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param linesToTranslate Array to store extracted text
-	 * @returns New line index after processing the block
+	 * Describe what surrounds the units to translate: their speaker, their scene and the dialogue around them
+	 * @param units All the units of the file, in file order
+	 * @param selected Units to translate, parsed from the same file
+	 * @param window Number of dialogue lines of the same scene to take before and after each unit
+	 * @returns The context of each selected unit, in the same order
 	 */
-	private processTwoCommentedLinesCase(lines: string[], i: number, linesToTranslate: string[]): number {
-		// Check if there's a line to fill after the comments
-		if (i + 5 < lines.length) {
-			// Check if the first line after the comments is a command without quotes (like "nvl clear")
-			const firstLineAfterComments = lines[i + 5].trim();
-
-			// If the first line after the comments doesn't contain quotes, it's a command like "nvl clear"
-			if (firstLineAfterComments.includes('"')) {
-				// Standard case: a single line to fill after the comments
-				// Check if the line contains empty quotes (to fill)
-				if (firstLineAfterComments.includes('""')) {
-					// The second commented line contains the text to translate
-					this.extractAndAddTextToTranslate(lines[i + 4], linesToTranslate);
+	getTextContexts(units: TranslationUnit[], selected: TranslationUnit[], window: number): TextContext[] {
+		const scenes = this.getScenes(units);
+		const positions = new Map(units.map((unit, index) => [unit.targetLineIndex, index]));
+
+		return selected.map(unit => {
+			const index = positions.get(unit.targetLineIndex) ?? -1;
+			const scene = index >= 0 ? scenes[index] : null;
+			const before: string[] = [];
+			const after: string[] = [];
+
+			if (scene !== null) {
+				for (let i = index - 1; i >= 0 && before.length < window && scenes[i] === scene; i--) {
+					before.unshift(units[i].sourceText);
 				}
-				// Skip if the line already has content between quotes (not empty quotes)
-				else if (firstLineAfterComments.includes('"') && !firstLineAfterComments.includes('""')) {
-					// Line already has translation, skip it
+				for (let i = index + 1; i < units.length && after.length < window && scenes[i] === scene; i++) {
+					after.push(units[i].sourceText);
 				}
-				return i + 6; // Move beyond the block (2 commented lines + 1 line to fill)
-			} else {
-				// Check if there's a second line to fill
-				if (i + 6 < lines.length) {
-					const secondLineAfterComments = lines[i + 6].trim();
-					// Check if the second line contains empty quotes (to fill)
-					if (secondLineAfterComments.includes('""')) {
-						// The second commented line contains the text to translate
-						this.extractAndAddTextToTranslate(lines[i + 4], linesToTranslate);
-					}
-					// Skip if the line already has content between quotes (not empty quotes)
-					else if (secondLineAfterComments.includes('"') && !secondLineAfterComments.includes('""')) {
-						// Line already has translation, skip it
-					}
-				}
-				return i + 7; // Move beyond the block (2 commented lines + 2 lines to fill)
 			}
-		} else {
-			return i + 6; // Move beyond the block if no line to fill
-		}
+
+			return {speaker: this.getSpeaker(unit), scene, before, after};
+		});
 	}
 
 	/**
-	 * Process a classic case with a single commented line in a dialogue block
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param linesToTranslate Array to store extracted text
-	 * @returns New line index after processing the block
+	 * Get the scene of each unit from the label in its block identifier
+	 * Blocks with an explicit identifier belong to the scene of the block before them
+	 * @param units All the units of the file, in file order
+	 * @returns The label of each dialogue unit, "" before the first label, null for strings
 	 */
-	private processSingleCommentedLineCase(lines: string[], i: number, linesToTranslate: string[]): number {
-		// Check if there's a line to fill after the comment
-		if (i + 4 < lines.length) {
-			const lineToFill = lines[i + 4].trim(); // The line to fill
-			// Check if the line contains empty quotes (to fill)
-			if (lineToFill.includes('""')) {
-				this.extractAndAddTextToTranslate(lines[i + 3], linesToTranslate);
+	private getScenes(units: TranslationUnit[]): (string | null)[] {
+		let scene = '';
+		return units.map(unit => {
+			if (unit.kind !== 'dialogue') {
+				return null;
 			}
-			// Skip if the line already has content between quotes (not empty quotes)
-			else if (lineToFill.includes('"') && !lineToFill.includes('""')) {
-				// Line already has translation, skip it
+			const match = RENPY_GENERATED_ID_REGEX.exec(unit.blockId);
+			if (match) {
+				scene = match[1] ?? '';
 			}
-		}
-		return i + 5; // Move beyond the block
+			return scene;
+		});
 	}
 
 	/**
-	 * Process a strings block (Type B) and extract text to translate
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param linesToTranslate Array to store extracted text
-	 * @returns New line index after processing the block
+	 * Get the speaker of a unit, as written before its text
+	 * @param unit Translation unit
+	 * @returns The character (e.g. "e") or the quoted name without quotes (e.g. "Eileen"), empty for narration and strings
 	 */
-	private processStringsBlock(lines: string[], i: number, linesToTranslate: string[]): number {
-		i++; // Move to the next line
+	private getSpeaker(unit: TranslationUnit): string {
+		if (unit.kind !== 'dialogue' || !unit.command) {
+			return '';
+		}
 
-		// Look only for "old" lines followed by empty "new" lines
-		while (i < lines.length) {
-			const currentLine = lines[i].trim();
+		const literal = this.renpyStringService.findStringLiterals(unit.command)[0];
+		return literal?.start === 0 ? literal.value : unit.command.split(/\s+/)[0];
+	}
 
-			// If we exit the strings block or reach another section
-			if (currentLine.startsWith('translate') && !currentLine.includes('strings:')) {
-				break;
+	/**
+	 * Process a dialogue block (Type A) and extract its translation units
+	 * Every commented source statement is paired with the target statement at the same position,
+	 * whatever the number of commented lines, voice, nvl or extend statements in the block
+	 * @param lines Array of all logical lines in the file
+	 * @param i Current line index (pointing to the "translate <language> <id>:" header)
+	 * @param result Parse result receiving the units and the diagnostics
+	 * @returns New line index after processing the block
+	 */
+	private processDialogueBlock(lines: RenpyLine[], i: number, result: RenpyParseResult): number {
+		const headerLine = lines[i].text.trim();
+		const header = RENPY_DIALOGUE_HEADER_REGEX.exec(headerLine);
+		const previousLine = lines[i - 1]?.text.trim() ?? '';
+		const sourceComment = previousLine.startsWith(RENPY_SOURCE_COMMENT_PREFIX) ? previousLine : '';
+		const end = this.findBlockEnd(lines, i + 1);
+		this.checkBlockLines(lines, i + 1, end, headerLine, result);
+
+		const sourceIndexes: number[] = [];
+		const targetIndexes: number[] = [];
+		let hasPass = false;
+
+		for (let j = i + 1; j < end; j++) {
+			const line = lines[j].text.trim();
+
+			// Commented lines hold the source statements, the others are the translated statements
+			if (line.startsWith('#')) {
+				if (this.isDialogueStatement(this.stripComment(line))) {
+					sourceIndexes.push(j);
+				}
+			} else if (this.isDialogueStatement(line)) {
+				targetIndexes.push(j);
+			} else if (line === 'pass') {
+				hasPass = true;
 			}
+		}
+
+		// Each source statement needs its translated statement, unless the translator removed them with "pass"
+		if (!sourceIndexes.length || (sourceIndexes.length !== targetIndexes.length && !hasPass)) {
+			this.addDiagnostic(result, lines[i], headerLine, 'unrecognised-shape');
+		}
 
-			// If it's an "old" line
-			if (currentLine.startsWith('old "')) {
-				this.processOldNewPair(lines, i, linesToTranslate);
+		const pairCount = Math.min(sourceIndexes.length, targetIndexes.length);
+		for (let k = 0; k < pairCount; k++) {
+			const source = this.renpyStringService.parseStatement(this.stripComment(lines[sourceIndexes[k]].text));
+			const targetLine = lines[targetIndexes[k]];
+			const target = this.renpyStringService.parseStatement(targetLine.text.trim());
+			if (!source?.text || !target) {
+				continue;
 			}
 
-			i++; // Move to the next line
+			result.units.push({
+				blockId: header?.[2] ?? '',
+				kind: 'dialogue',
+				language: header?.[1] ?? '',
+				sourceText: source.text,
+				command: target.command,
+				targetLineIndex: targetLine.index,
+				targetLineCount: targetLine.lineCount,
+				tripleQuoted: source.literal.quote.length === 3 || target.literal.quote.length === 3,
+				indentation: this.getIndentation(targetLine.text),
+				existingTranslation: target.text,
+				sourceComment
+			});
 		}
 
-		return i;
+		return end;
 	}
 
 	/**
-	 * Process an "old"/"new" pair in a strings block
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index (pointing to the "old" line)
-	 * @param linesToTranslate Array to store extracted text
+	 * Process a strings block (Type B) and extract its translation units
+	 * @param lines Array of all logical lines in the file
+	 * @param i Current line index (pointing to the "translate <language> strings:" header)
+	 * @param oldTexts Keys of the "old" entries already read in the file, to detect duplicates
+	 * @param result Parse result receiving the units and the diagnostics
+	 * @returns New line index after processing the block
 	 */
-	private processOldNewPair(lines: string[], i: number, linesToTranslate: string[]): void {
-		// Move to the next line which should be "new"
-		const nextIndex = i + 1;
-		if (nextIndex < lines.length) {
-			const nextLine = lines[nextIndex].trim();
-			// Check if it's an empty "new" line
-			if (nextLine.startsWith('new "') && (nextLine === 'new ""' || nextLine.endsWith('""'))) {
-				const oldMatch = /old\s+"([^"]+)"/.exec(lines[i].trim());
-				const textToTranslate = oldMatch?.[1] ?? '';
-				if (textToTranslate) {
-					linesToTranslate.push(textToTranslate);
+	private processStringsBlock(lines: RenpyLine[], i: number, oldTexts: Set<string>, result: RenpyParseResult): number {
+		const headerLine = lines[i].text.trim();
+		const language = RENPY_STRINGS_HEADER_REGEX.exec(headerLine)?.[1] ?? '';
+		const end = this.findBlockEnd(lines, i + 1);
+		this.checkBlockLines(lines, i + 1, end, headerLine, result);
+		let sourceComment = '';
+
+		for (let j = i + 1; j < end; j++) {
+			const currentLine = lines[j].text.trim();
+
+			// Remember the source file comment of the next pair
+			if (currentLine.startsWith(RENPY_SOURCE_COMMENT_PREFIX)) {
+				sourceComment = currentLine;
+			}
+
+			// If it's an "old" line, pair it with the following "new" line
+			else if (currentLine.startsWith('old ')) {
+				const oldKey = `${language}:${this.renpyStringService.parseStatement(currentLine)?.text ?? ''}`;
+				if (oldTexts.has(oldKey)) {
+					this.addDiagnostic(result, lines[j], headerLine, 'duplicate-old');
 				}
+				oldTexts.add(oldKey);
+
+				j = this.processOldNewPair(lines, j, end, language, sourceComment, result);
+				sourceComment = '';
 			}
-			// Skip if the "new" line already has content between quotes (not empty quotes)
-			else if (nextLine.startsWith('new "') && nextLine.includes('"') && !nextLine.endsWith('""') && nextLine !== 'new ""') {
-				// Line already has translation, skip it
+
+			// A "new" line is always consumed by the "old" line before it
+			else if (currentLine.startsWith('new ')) {
+				this.addDiagnostic(result, lines[j], headerLine, 'orphan-new');
+			} else if (currentLine && !currentLine.startsWith('#')) {
+				this.addDiagnostic(result, lines[j], headerLine, 'unrecognised-shape');
 			}
 		}
-	}
 
-	/**
-	 * Extract text from a line and add it to the linesToTranslate array
-	 * @param line Line containing text to extract
-	 * @param linesToTranslate Array to store extracted text
-	 */
-	private extractAndAddTextToTranslate(line: string, linesToTranslate: string[]): void {
-		const textToTranslate = /"(.*)"/.exec(line)?.[1] ?? '';
-		if (textToTranslate) {
-			linesToTranslate.push(textToTranslate);
-		}
+		return end;
 	}
 
 	/**
-	 * Find lines to fill in a dialogue block (Type A)
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param linesToFill Array to store lines to fill
-	 * @returns New line index after processing the block
+	 * Process an "old"/"new" pair in a strings block
+	 * @param lines Array of all logical lines in the file
+	 * @param i Current line index (pointing to the "old" line)
+	 * @param end Index of the first line after the block
+	 * @param language Ren'Py language identifier of the block
+	 * @param sourceComment Source file comment preceding the pair
+	 * @param result Parse result receiving the units and the diagnostics
+	 * @returns Index of the "new" line, or of the "old" line if no "new" line follows
 	 */
-	private findLinesToFillInDialogueBlock(lines: string[], i: number, linesToFill: string[]): number {
-		const comment1 = lines[i + 3]?.trim();
-		const comment2 = lines[i + 4]?.trim();
-
-		// Special case: two commented lines (with # and nvl clear or other command)
-		if (comment1?.startsWith('#') && comment2?.startsWith('#')) {
-			return this.findLinesToFillInTwoCommentedLinesCase(lines, i, linesToFill);
+	private processOldNewPair(lines: RenpyLine[], i: number, end: number, language: string, sourceComment: string, result: RenpyParseResult): number {
+		// Move to the next statement which should be "new"
+		const nextIndex = this.findNextStatement(lines, i + 1, end);
+		if (nextIndex === -1 || !lines[nextIndex].text.trim().startsWith('new ')) {
+			this.addDiagnostic(result, lines[i], `translate ${language} strings:`, 'unrecognised-shape');
+			return i;
 		}
 
-		// Classic case: a single commented line
-		else if (comment1?.startsWith('#')) {
-			return this.findLinesToFillInSingleCommentedLineCase(lines, i, linesToFill);
+		const oldStatement = this.renpyStringService.parseStatement(lines[i].text.trim());
+		const newLine = lines[nextIndex];
+		const newStatement = this.renpyStringService.parseStatement(newLine.text.trim());
+		const oldText = oldStatement?.text ?? '';
+		if (!oldText || !newStatement) {
+			return nextIndex;
 		}
 
-		return i + 5;  // Move to the next block if format not recognized
+		result.units.push({
+			blockId: 'strings',
+			kind: 'strings',
+			language,
+			sourceText: oldText,
+			command: 'new',
+			targetLineIndex: newLine.index,
+			targetLineCount: newLine.lineCount,
+			tripleQuoted: oldStatement!.literal.quote.length === 3 || newStatement.literal.quote.length === 3,
+			indentation: this.getIndentation(newLine.text),
+			existingTranslation: newStatement.text,
+			sourceComment
+		});
+
+		return nextIndex;
 	}
 
 	/**
-	 * Find lines to fill in a special case with two commented lines in a dialogue block
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param linesToFill Array to store lines to fill
-	 * @returns New line index after processing the block
+	 * Report the unterminated strings and the indentation changes of a block body
+	 * @param lines Array of all logical lines in the file
+	 * @param from Index of the first line of the block body
+	 * @param end Index of the first line after the block
+	 * @param header Header of the block
+	 * @param result Parse result receiving the diagnostics
 	 */
-	private findLinesToFillInTwoCommentedLinesCase(lines: string[], i: number, linesToFill: string[]): number {
-		// Check if there's a line to fill after the comments
-		if (i + 5 < lines.length) {
-			// Check if the first line after the comments is a command without quotes (like "nvl clear")
-			const firstLineAfterComments = lines[i + 5].trim();
-
-			// If the first line after the comments doesn't contain quotes, it's a command like "nvl clear"
-			if (firstLineAfterComments.includes('"')) {
-				return this.handleStandardCase(lines, i, linesToFill, firstLineAfterComments);
-			} else {
-				return this.handleCommandWithoutQuotes(lines, i, linesToFill);
+	private checkBlockLines(lines: RenpyLine[], from: number, end: number, header: string, result: RenpyParseResult): void {
+		let indentation: string | null = null;
+
+		for (let j = from; j < end; j++) {
+			const line = lines[j].text;
+			if (!line.trim()) {
+				continue;
 			}
-		} else {
-			return i + 6; // Move beyond the block if no line to fill
-		}
-	}
 
-	/**
-	 * Handle the case when the first line after comments doesn't contain quotes (like "nvl clear")
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param linesToFill Array to store lines to fill
-	 * @returns New line index after processing the block
-	 */
-	private handleCommandWithoutQuotes(lines: string[], i: number, linesToFill: string[]): number {
-		// Check if there's a second line to fill
-		if (i + 6 < lines.length) {
-			const secondLineAfterComments = lines[i + 6].trim();
-			// Check if the second line contains empty quotes (to fill)
-			if (secondLineAfterComments.includes('""')) {
-				this.addCommandToLinesToFill(lines[i + 4], linesToFill);
+			// Every statement of the body must use the indentation of the first one
+			indentation ??= this.getIndentation(line);
+			if (this.getIndentation(line) !== indentation) {
+				this.addDiagnostic(result, lines[j], header, 'mismatched-indentation');
+			}
+
+			if (!line.trim().startsWith('#') && this.renpyStringService.hasUnterminatedLiteral(line)) {
+				this.addDiagnostic(result, lines[j], header, 'unterminated-string');
 			}
 		}
-		return i + 7; // Move beyond the block (2 commented lines + 2 lines to fill)
 	}
 
 	/**
-	 * Handle the standard case when the first line after comments contains quotes
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param linesToFill Array to store lines to fill
-	 * @param lineToCheck The line to check for empty quotes
-	 * @returns New line index after processing the block
+	 * Add a diagnostic about a line
+	 * @param result Parse result receiving the diagnostic
+	 * @param line Logical line the diagnostic is about
+	 * @param header Header of the block containing the line
+	 * @param reason Reason of the diagnostic
 	 */
-	private handleStandardCase(lines: string[], i: number, linesToFill: string[], lineToCheck: string): number {
-		// Check if the line contains empty quotes (to fill)
-		if (lineToCheck.includes('""')) {
-			this.addCommandToLinesToFill(lines[i + 4], linesToFill);
-		}
-		return i + 6; // Move beyond the block (2 commented lines + 1 line to fill)
+	private addDiagnostic(result: RenpyParseResult, line: RenpyLine, header: string, reason: ParserDiagnosticReason): void {
+		result.diagnostics.push({
+			lineNumber: line.index + 1,
+			header,
+			reason,
+			line: line.text.split('\n')[0].trim()
+		});
 	}
 
 	/**
-	 * Extract command from a line and add it to linesToFill
-	 * @param line Line to extract command from
-	 * @param linesToFill Array to store lines to fill
+	 * Find the end of an indented block: the next non-empty line without indentation
+	 * @param lines Array of all logical lines in the file
+	 * @param from Index of the first line of the block body
+	 * @returns Index of the first line after the block
 	 */
-	private addCommandToLinesToFill(line: string, linesToFill: string[]): void {
-		const command = this.extractCommand(line);
-		if (command) {
-			linesToFill.push(`${command} ""`);
+	private findBlockEnd(lines: RenpyLine[], from: number): number {
+		let i = from;
+		while (i < lines.length && (!lines[i].text.trim() || /^\s/.test(lines[i].text))) {
+			i++;
 		}
+		return i;
 	}
 
 	/**
-	 * Find lines to fill in a classic case with a single commented line in a dialogue block
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param linesToFill Array to store lines to fill
-	 * @returns New line index after processing the block
+	 * Find the next line holding a statement, skipping blank lines and comments
+	 * @param lines Array of all logical lines in the file
+	 * @param from Index to start searching from
+	 * @param end Index of the first line after the block
+	 * @returns Index of the statement, or -1 if the block has no more statements
 	 */
-	private findLinesToFillInSingleCommentedLineCase(lines: string[], i: number, linesToFill: string[]): number {
-		// Check if there's a line to fill after the comment
-		if (i + 4 < lines.length) {
-			const lineToFill = lines[i + 4].trim(); // The line to fill
-			// Check if the line contains empty quotes (to fill)
-			if (lineToFill.includes('""')) {
-				// Extract the command to reuse
-				const command = this.extractCommand(lines[i + 3]);
-				if (command) {
-					linesToFill.push(`${command} ""`);
-				}
+	private findNextStatement(lines: RenpyLine[], from: number, end: number): number {
+		for (let i = from; i < end; i++) {
+			const line = lines[i].text.trim();
+			if (line && !line.startsWith('#')) {
+				return i;
 			}
 		}
-		return i + 5; // Move beyond the block
+		return -1;
 	}
 
 	/**
-	 * Find lines to fill in a strings block (Type B)
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param linesToFill Array to store lines to fill
-	 * @returns New line index after processing the block
+	 * Remove the comment marker of a commented line
+	 * @param line Line to strip
+	 * @returns The trimmed line without its leading "#"
 	 */
-	private findLinesToFillInStringsBlock(lines: string[], i: number, linesToFill: string[]): number {
-		i++; // Move to the next line
-
-		while (i < lines.length) {
-			const currentLine = lines[i].trim();
-
-			// If we exit the strings block or reach another section
-			if (currentLine.startsWith('translate') && !currentLine.includes('strings:')) {
-				break;
-			}
-
-			// If it's an "old" line
-			if (currentLine.startsWith('old "')) {
-				i = this.processOldNewPairForFill(lines, i, linesToFill);
-			} else {
-				i++; // Move to the next line if it's not an "old" line
-			}
-		}
-
-		return i;
+	private stripComment(line: string): string {
+		return line.trim().replace(/^#\s*/, '');
 	}
 
 	/**
-	 * Process an "old"/"new" pair in a strings block for filling
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index (pointing to the "old" line)
-	 * @param linesToFill Array to store lines to fill
-	 * @returns New line index after processing the pair
+	 * Get the leading whitespace of a line
+	 * @param line Line to inspect
+	 * @returns Leading whitespace
 	 */
-	private processOldNewPairForFill(lines: string[], i: number, linesToFill: string[]): number {
-		// Extract the "old" text for reference
-		new RegExp(/old\s+"([^"]+)"/).exec(lines[i].trim());
-		// Move to the next line which should be "new"
-		i++;
-		if (i < lines.length) {
-			const nextLine = lines[i].trim();
-			// Check if it's an empty "new" line
-			if (nextLine.startsWith('new "') && (nextLine === 'new ""' || nextLine.endsWith('""'))) {
-				linesToFill.push(`new ""`);
-			}
-		}
-		return i;
+	private getIndentation(line: string): string {
+		return /^\s*/.exec(line)?.[0] ?? '';
 	}
 }
@@ -0,0 +1,58 @@
+import {TestBed} from '@angular/core/testing';
+import {RenpyStringService} from './renpy-string.service';
+
+describe('RenpyStringService', () => {
+	let service: RenpyStringService;
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		service = TestBed.inject(RenpyStringService);
+	});
+
+	it('should decode escaped quotes, backslashes, newlines and doubled percent signs', () => {
+		expect(service.decode('He said \\"hi\\"')).toEqual('He said "hi"');
+		expect(service.decode('It\\\'s C:\\\\game')).toEqual('It\'s C:\\game');
+		expect(service.decode('First\\nSecond')).toEqual('First\nSecond');
+		expect(service.decode('100%% sure')).toEqual('100% sure');
+	});
+
+	it('should encode text so that it decodes back to itself', () => {
+		const text = 'He said "100% sure"\nC:\\game';
+
+		expect(service.encode(text)).toEqual('He said \\"100%% sure\\"\\nC:\\\\game');
+		expect(service.decode(service.encode(text))).toEqual(text);
+	});
+
+	it('should keep the percent sign of a "%(name)s" interpolation', () => {
+		expect(service.encode('%(name)s has 50%')).toEqual('%(name)s has 50%%');
+	});
+
+	it('should decode escaped spaces and escape repeated spaces so that they are not collapsed', () => {
+		expect(service.decode('Wait\\ \\ \\ for  it')).toEqual('Wait   for it');
+		expect(service.encode('Wait   for it')).toEqual('Wait \\ \\ for it');
+		expect(service.decode(service.encode('Wait   for it'))).toEqual('Wait   for it');
+	});
+
+	it('should collapse the line breaks of a literal, keeping the paragraphs of a triple-quoted one', () => {
+		expect(service.decode('A string\n    broken')).toEqual('A string broken');
+		expect(service.decode('\n    First\n    goes on.\n\n    Second.\n', true)).toEqual('First goes on.\nSecond.');
+		expect(service.encodeTripleQuoted('First.\nSecond "quoted".', '        ')).toEqual('First.\n\n        Second \\"quoted\\".');
+	});
+
+	it('should report a literal continuing on the next line', () => {
+		expect(service.hasUnterminatedLiteral('e """First paragraph')).toBeTrue();
+		expect(service.hasUnterminatedLiteral('e """Done."""')).toBeFalse();
+	});
+
+	it('should parse the command and the text of a statement', () => {
+		expect(service.parseStatement('e "Say \\"yes\\"" # comment')).toEqual(jasmine.objectContaining({command: 'e', text: 'Say "yes"'}));
+		expect(service.parseStatement('"Eileen" "Hello."')).toEqual(jasmine.objectContaining({command: '"Eileen"', text: 'Hello.'}));
+		expect(service.parseStatement('old "Start"')).toEqual(jasmine.objectContaining({command: 'old', text: 'Start'}));
+		expect(service.parseStatement('nvl clear')).toBeNull();
+	});
+
+	it('should ignore quotes in a trailing comment and unterminated literals', () => {
+		expect(service.findStringLiterals('e "Hi" # "not a literal"').length).toEqual(1);
+		expect(service.findStringLiterals('e "Unterminated').length).toEqual(0);
+	});
+});
@@ -0,0 +1,163 @@
+import {Injectable} from '@angular/core';
+import {RenpyStatement, RenpyStringLiteral} from '../models/renpy-statement.model';
+
+@Injectable({
+	providedIn: 'root'
+})
+export class RenpyStringService {
+
+	/**
+	 * Find the string literals of a statement, ignoring a trailing comment
+	 * The statement may span several lines when a literal does
+	 * @param line The statement to scan
+	 * @returns Array of complete string literals in order of appearance
+	 */
+	findStringLiterals(line: string): RenpyStringLiteral[] {
+		return this.scan(line).literals;
+	}
+
+	/**
+	 * Check if a statement ends inside a string literal, meaning the literal continues on the next line
+	 * @param line The statement to scan
+	 * @returns True if a literal is opened but not closed
+	 */
+	hasUnterminatedLiteral(line: string): boolean {
+		return this.scan(line).unterminated;
+	}
+
+	/**
+	 * Parse a say statement, an "old" or a "new" line into its command and its text
+	 * @param line The line to parse, without comment marker
+	 * @returns The parsed statement, or null if the line has no string literal
+	 */
+	parseStatement(line: string): RenpyStatement | null {
+		const literals = this.findStringLiterals(line);
+		if (!literals.length) {
+			return null;
+		}
+
+		// When the speaker is itself a string ("Eileen" "Hello"), the text is the second literal
+		let literal = literals[0];
+		const next = literals[1];
+		if (!line.slice(0, literal.start).trim() && next && !line.slice(literal.end, next.start).trim()) {
+			literal = next;
+		}
+
+		return {
+			command: line.slice(0, literal.start).trim(),
+			text: literal.value,
+			literal
+		};
+	}
+
+	/**
+	 * Decode the body of a Ren'Py string literal
+	 * Handles \", \', \\, \n, "\ " and the doubled percent sign. Runs of whitespace and line breaks collapse into
+	 * a single space, as Ren'Py does, except blank lines of triple-quoted strings which separate paragraphs
+	 * @param body Raw text between the quotes
+	 * @param tripleQuoted True if the literal is triple-quoted
+	 * @returns Decoded text
+	 */
+	decode(body: string, tripleQuoted: boolean = false): string {
+		if (tripleQuoted && body.includes('\n')) {
+			body = body.trim().replace(/[ \t\r]*\n[ \t\r]*(?:\n[ \t\r]*)+/g, '\\n');
+		}
+
+		return body
+			.replace(/[ \t\r\n]+/g, ' ')
+			.replace(/\\(["'\\n ])|%%/g, (match: string, escaped?: string) => {
+				if (match === '%%') {
+					return '%';
+				}
+				return escaped === 'n' ? '\n' : escaped!;
+			});
+	}
+
+	/**
+	 * Encode text as the body of a double-quoted Ren'Py string literal
+	 * Percent signs starting a "%(name)s" interpolation are kept as they are, and repeated spaces are escaped
+	 * so that Ren'Py does not collapse them
+	 * @param text Decoded text
+	 * @returns Raw text to write between double quotes
+	 */
+	encode(text: string): string {
+		return text
+			.replace(/\\/g, '\\\\')
+			.replace(/"/g, '\\"')
+			.replace(/\r?\n/g, '\\n')
+			.replace(/(?<= ) /g, '\\ ')
+			.replace(/%(?!\()/g, '%%');
+	}
+
+	/**
+	 * Encode text as the body of a triple-quoted Ren'Py string literal
+	 * Paragraphs are written on their own lines, separated by a blank line
+	 * @param text Decoded text, paragraphs separated by "\n"
+	 * @param indentation Leading whitespace of the continuation lines
+	 * @returns Raw text to write between triple double quotes
+	 */
+	encodeTripleQuoted(text: string, indentation: string): string {
+		return text
+			.split(/\r?\n/)
+			.map(paragraph => this.encode(paragraph))
+			.join(`\n\n${indentation}`);
+	}
+
+	/**
+	 * Scan a statement for string literals
+	 * @param line The statement to scan
+	 * @returns The complete literals, and whether the statement ends inside a literal
+	 */
+	private scan(line: string): { literals: RenpyStringLiteral[], unterminated: boolean } {
+		const literals: RenpyStringLiteral[] = [];
+		let i = 0;
+
+		while (i < line.length) {
+			const char = line[i];
+
+			// A comment outside a literal ends the statement
+			if (char === '#') {
+				break;
+			}
+
+			if (char === '"' || char === "'" || char === '`') {
+				const quote = line.startsWith(char.repeat(3), i) ? char.repeat(3) : char;
+				const end = this.findClosingQuote(line, i + quote.length, quote);
+				if (end === -1) {
+					return {literals, unterminated: true};
+				}
+
+				literals.push({
+					start: i,
+					end: end + quote.length,
+					quote,
+					value: this.decode(line.slice(i + quote.length, end), quote.length === 3)
+				});
+				i = end + quote.length;
+				continue;
+			}
+
+			i++;
+		}
+
+		return {literals, unterminated: false};
+	}
+
+	/**
+	 * Find the closing quote of a literal, skipping escaped characters
+	 * @param line The line to scan
+	 * @param from Index just after the opening quote
+	 * @param quote The quote opening the literal, single or tripled
+	 * @returns Index of the closing quote, or -1 if the literal is unterminated
+	 */
+	private findClosingQuote(line: string, from: number, quote: string): number {
+		for (let i = from; i < line.length; i++) {
+			if (line[i] === '\\') {
+				i++; // Skip the escaped character
+			} else if (line.startsWith(quote, i)) {
+				return i;
+			}
+		}
+		return -1;
+	}
+}
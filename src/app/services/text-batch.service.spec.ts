@@ -0,0 +1,26 @@
+import {TestBed} from '@angular/core/testing';
+import {TextBatchService} from './text-batch.service';
+
+describe('TextBatchService', () => {
+	let service: TextBatchService;
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		service = TestBed.inject(TextBatchService);
+	});
+
+	it('should start a new request when the segment or the size limit is reached', () => {
+		expect(service.createBatches(['a', 'b', 'c'], 2, 100)).toEqual([['a', 'b'], ['c']]);
+		expect(service.createBatches(['aaa', 'bb', 'c'], 10, 4)).toEqual([['aaa'], ['bb', 'c']]);
+	});
+
+	it('should send a text longer than the size limit alone', () => {
+		expect(service.createBatches(['a', 'too long', 'b'], 10, 4)).toEqual([['a'], ['too long'], ['b']]);
+		expect(service.createBatches([], 10, 4)).toEqual([]);
+	});
+
+	it('should count the characters of the texts and key the month by year and month', () => {
+		expect(service.calculateCharacterCount(['Hello', ' ', 'world'])).toEqual(11);
+		expect(service.getCurrentMonth()).toMatch(/^\d{4}-\d{2}$/);
+	});
+});
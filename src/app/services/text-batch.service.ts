@@ -0,0 +1,54 @@
+import {Injectable} from '@angular/core';
+
+@Injectable({
+	providedIn: 'root'
+})
+export class TextBatchService {
+
+	/**
+	 * Split texts into requests within the segment and size limits of an API
+	 * A text longer than the size limit is sent alone
+	 * @param texts Array of texts to translate
+	 * @param maxSegments Maximum number of texts in a request
+	 * @param maxCharacters Maximum number of characters in a request
+	 * @returns The texts of each request, in order
+	 */
+	createBatches(texts: string[], maxSegments: number, maxCharacters: number): string[][] {
+		const batches: string[][] = [];
+		let currentBatch: string[] = [];
+		let currentBatchSize = 0;
+
+		for (const text of texts) {
+			if (currentBatch.length && (currentBatch.length >= maxSegments || currentBatchSize + text.length > maxCharacters)) {
+				batches.push(currentBatch);
+				currentBatch = [];
+				currentBatchSize = 0;
+			}
+
+			currentBatch.push(text);
+			currentBatchSize += text.length;
+		}
+
+		if (currentBatch.length) {
+			batches.push(currentBatch);
+		}
+		return batches;
+	}
+
+	/**
+	 * Calculate the total character count for an array of texts
+	 * @param texts Array of texts to count characters for
+	 * @returns Total character count
+	 */
+	calculateCharacterCount(texts: string[]): number {
+		return texts.reduce((total, text) => total + text.length, 0);
+	}
+
+	/**
+	 * Get the current month, the period of the character counts kept in the browser
+	 * @returns The month, e.g. "2025-01"
+	 */
+	getCurrentMonth(): string {
+		return new Date().toISOString().slice(0, 7);
+	}
+}
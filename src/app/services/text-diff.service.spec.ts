@@ -0,0 +1,39 @@
+import {TestBed} from '@angular/core/testing';
+import {TextDiffService} from './text-diff.service';
+
+describe('TextDiffService', () => {
+	let service: TextDiffService;
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		service = TestBed.inject(TextDiffService);
+	});
+
+	it('should mark the replaced lines with their line numbers on each side', () => {
+		const diff = service.diffLines('translate french start:\n    e ""\n', 'translate french start:\n    e "Bonjour."\n');
+
+		expect(diff).toEqual([
+			{kind: 'unchanged', text: 'translate french start:', originalLineNumber: 1, modifiedLineNumber: 1},
+			{kind: 'removed', text: '    e ""', originalLineNumber: 2},
+			{kind: 'added', text: '    e "Bonjour."', modifiedLineNumber: 2},
+			{kind: 'unchanged', text: '', originalLineNumber: 3, modifiedLineNumber: 3}
+		]);
+	});
+
+	it('should ignore the line endings', () => {
+		expect(service.diffLines('a\r\nb\r\n', 'a\nb\n').every(line => line.kind === 'unchanged')).toBeTrue();
+	});
+
+	it('should align the repeated lines around the inserted ones', () => {
+		const diff = service.diffLines(['old "A"', 'new ""', 'old "B"', 'new ""'].join('\n'), ['old "A"', 'new ""', '# fuzzy 80%', 'old "B"', 'new ""'].join('\n'));
+
+		expect(diff.map(line => line.kind)).toEqual(['unchanged', 'unchanged', 'added', 'unchanged', 'unchanged']);
+		expect(diff[3]).toEqual(jasmine.objectContaining({originalLineNumber: 3, modifiedLineNumber: 4}));
+	});
+
+	it('should find the first line of each run of changes', () => {
+		const diff = service.diffLines('a\nb\nc\nd\ne', 'a\nB\nc\nD\nE');
+
+		expect(service.getChangeStarts(diff)).toEqual([1, 4]);
+	});
+});
@@ -0,0 +1,189 @@
+import {Injectable} from '@angular/core';
+import {DiffLine} from '../models/diff-line.model';
+
+// Largest region (lines of one side times lines of the other) compared line by line,
+// bigger regions without common unique lines are shown as entirely replaced
+const MAX_COMPARED_CELLS = 4_000_000;
+
+interface LineRange {
+	lines: string[];
+	start: number;
+	end: number;
+}
+
+@Injectable({
+	providedIn: 'root'
+})
+export class TextDiffService {
+
+	/**
+	 * Compare two texts line by line
+	 * Lines appearing once in both texts anchor the comparison (patience diff), the regions between anchors
+	 * are compared with a longest common subsequence, which keeps large translation files fast
+	 * @param original The original text
+	 * @param modified The modified text
+	 * @returns Every line of both texts, in order, marked unchanged, removed or added
+	 */
+	diffLines(original: string, modified: string): DiffLine[] {
+		const a = original.split(/\r?\n/);
+		const b = modified.split(/\r?\n/);
+		const diff: DiffLine[] = [];
+		this.diffRanges({lines: a, start: 0, end: a.length}, {lines: b, start: 0, end: b.length}, diff);
+		return diff;
+	}
+
+	/**
+	 * Get the index of the first line of each run of changed lines
+	 * @param diff The compared lines
+	 * @returns Indexes in the diff, in order
+	 */
+	getChangeStarts(diff: DiffLine[]): number[] {
+		return diff
+			.map((line, i) => line.kind !== 'unchanged' && (i === 0 || diff[i - 1].kind === 'unchanged') ? i : -1)
+			.filter(i => i !== -1);
+	}
+
+	private diffRanges(a: LineRange, b: LineRange, diff: DiffLine[]): void {
+		let {start: aStart, end: aEnd} = a;
+		let {start: bStart, end: bEnd} = b;
+
+		while (aStart < aEnd && bStart < bEnd && a.lines[aStart] === b.lines[bStart]) {
+			this.pushUnchanged(a, aStart++, bStart++, diff);
+		}
+
+		let suffixLength = 0;
+		while (aEnd - suffixLength > aStart && bEnd - suffixLength > bStart &&
+			a.lines[aEnd - suffixLength - 1] === b.lines[bEnd - suffixLength - 1]) {
+			suffixLength++;
+		}
+		aEnd -= suffixLength;
+		bEnd -= suffixLength;
+
+		const anchors = this.findAnchors({lines: a.lines, start: aStart, end: aEnd}, {lines: b.lines, start: bStart, end: bEnd});
+		if (anchors.length) {
+			for (const [aIndex, bIndex] of anchors) {
+				this.diffRanges({lines: a.lines, start: aStart, end: aIndex}, {lines: b.lines, start: bStart, end: bIndex}, diff);
+				this.pushUnchanged(a, aIndex, bIndex, diff);
+				aStart = aIndex + 1;
+				bStart = bIndex + 1;
+			}
+			this.diffRanges({lines: a.lines, start: aStart, end: aEnd}, {lines: b.lines, start: bStart, end: bEnd}, diff);
+		} else {
+			this.diffCommonSubsequence({lines: a.lines, start: aStart, end: aEnd}, {lines: b.lines, start: bStart, end: bEnd}, diff);
+		}
+
+		for (let i = 0; i < suffixLength; i++) {
+			this.pushUnchanged(a, aEnd + i, bEnd + i, diff);
+		}
+	}
+
+	/**
+	 * Find the lines appearing exactly once in both ranges, keeping the longest sequence in the same order
+	 * @param a Range of the original lines
+	 * @param b Range of the modified lines
+	 * @returns Pairs of line indexes, in order
+	 */
+	private findAnchors(a: LineRange, b: LineRange): [number, number][] {
+		const counts = new Map<string, { a: number, b: number, aIndex: number, bIndex: number }>();
+		for (let i = a.start; i < a.end; i++) {
+			const entry = counts.get(a.lines[i]) ?? {a: 0, b: 0, aIndex: i, bIndex: -1};
+			entry.a++;
+			counts.set(a.lines[i], entry);
+		}
+		for (let i = b.start; i < b.end; i++) {
+			const entry = counts.get(b.lines[i]);
+			if (entry) {
+				entry.b++;
+				entry.bIndex = i;
+			}
+		}
+
+		const pairs = [...counts.values()]
+			.filter(entry => entry.a === 1 && entry.b === 1)
+			.map(entry => [entry.aIndex, entry.bIndex] as [number, number])
+			.sort((x, y) => x[0] - y[0]);
+
+		return this.longestIncreasingSequence(pairs);
+	}
+
+	/**
+	 * Keep the longest sequence of pairs whose second index increases, by patience sorting
+	 * @param pairs Pairs sorted by their first index
+	 * @returns The kept pairs, in order
+	 */
+	private longestIncreasingSequence(pairs: [number, number][]): [number, number][] {
+		const pileTops: number[] = [];
+		const previous: number[] = [];
+
+		pairs.forEach((pair, i) => {
+			let low = 0;
+			let high = pileTops.length;
+			while (low < high) {
+				const middle = (low + high) >> 1;
+				if (pairs[pileTops[middle]][1] < pair[1]) {
+					low = middle + 1;
+				} else {
+					high = middle;
+				}
+			}
+			previous[i] = low > 0 ? pileTops[low - 1] : -1;
+			pileTops[low] = i;
+		});
+
+		const sequence: [number, number][] = [];
+		for (let i = pileTops.at(-1) ?? -1; i !== -1; i = previous[i]) {
+			sequence.unshift(pairs[i]);
+		}
+		return sequence;
+	}
+
+	/**
+	 * Compare two ranges with a longest common subsequence table
+	 * @param a Range of the original lines
+	 * @param b Range of the modified lines
+	 * @param diff Array to store the compared lines
+	 */
+	private diffCommonSubsequence(a: LineRange, b: LineRange, diff: DiffLine[]): void {
+		const n = a.end - a.start;
+		const m = b.end - b.start;
+
+		if (n * m > MAX_COMPARED_CELLS) {
+			for (let i = a.start; i < a.end; i++) {
+				diff.push({kind: 'removed', text: a.lines[i], originalLineNumber: i + 1});
+			}
+			for (let j = b.start; j < b.end; j++) {
+				diff.push({kind: 'added', text: b.lines[j], modifiedLineNumber: j + 1});
+			}
+			return;
+		}
+
+		// lengths[i * (m + 1) + j]: length of the common subsequence of the lines after i and after j
+		const lengths = new Uint32Array((n + 1) * (m + 1));
+		for (let i = n - 1; i >= 0; i--) {
+			for (let j = m - 1; j >= 0; j--) {
+				lengths[i * (m + 1) + j] = a.lines[a.start + i] === b.lines[b.start + j]
+					? lengths[(i + 1) * (m + 1) + j + 1] + 1
+					: Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+			}
+		}
+
+		let i = 0;
+		let j = 0;
+		while (i < n || j < m) {
+			if (i < n && j < m && a.lines[a.start + i] === b.lines[b.start + j]) {
+				this.pushUnchanged(a, a.start + i++, b.start + j++, diff);
+			} else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+				// Removed lines come before the lines replacing them
+				diff.push({kind: 'removed', text: a.lines[a.start + i], originalLineNumber: a.start + i + 1});
+				i++;
+			} else {
+				diff.push({kind: 'added', text: b.lines[b.start + j], modifiedLineNumber: b.start + j + 1});
+				j++;
+			}
+		}
+	}
+
+	private pushUnchanged(a: LineRange, aIndex: number, bIndex: number, diff: DiffLine[]): void {
+		diff.push({kind: 'unchanged', text: a.lines[aIndex], originalLineNumber: aIndex + 1, modifiedLineNumber: bIndex + 1});
+	}
+}
@@ -0,0 +1,18 @@
+import {Injectable} from '@angular/core';
+
+@Injectable({
+	providedIn: 'root'
+})
+export class TextFileService {
+
+	/**
+	 * Read a text file as UTF-8, keeping its byte order mark
+	 * File.text() drops the BOM, which would then be missing from the translated file
+	 * @param file The file to read
+	 * @returns The content of the file, starting with "\uFEFF" if the file has a BOM
+	 */
+	async readText(file: File): Promise<string> {
+		const buffer = await file.arrayBuffer();
+		return new TextDecoder('utf-8', {ignoreBOM: true}).decode(buffer);
+	}
+}
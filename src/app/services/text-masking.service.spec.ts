@@ -0,0 +1,39 @@
+import {TestBed} from '@angular/core/testing';
+import {TextMaskingService} from './text-masking.service';
+
+describe('TextMaskingService', () => {
+	let service: TextMaskingService;
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		service = TestBed.inject(TextMaskingService);
+	});
+
+	it('should replace tags, interpolations, formats and line breaks with XML placeholders', () => {
+		const masked = service.mask('{b}Hi{/b} [name], %(count)d left\nBye', 'xml');
+
+		expect(masked.text).toEqual('<x i="0"/>Hi<x i="1"/> <x i="2"/>, <x i="3"/> left<x i="4"/>Bye');
+		expect(masked.placeholders).toEqual(['{b}', '{/b}', '[name]', '%(count)d', '\n']);
+	});
+
+	it('should keep escaped brackets as plain text and escape XML characters', () => {
+		expect(service.mask('{{not a tag}} [[not a variable] a < b & c', 'xml'))
+			.toEqual({text: '{{not a tag}} [[not a variable] a &lt; b &amp; c', placeholders: []});
+		expect(service.mask('a < b {i}', 'token')).toEqual({text: 'a < b ⟦0⟧', placeholders: ['{i}']});
+	});
+
+	it('should restore the placeholders moved or reformatted by the translation', () => {
+		const masked = service.mask('Hello [name]{w}', 'xml');
+
+		expect(service.unmask('<x i = "1" /> Bonjour &amp; <x i="0"/>', masked.placeholders, 'xml'))
+			.toEqual({text: '{w} Bonjour & [name]', missing: []});
+		expect(service.unmask('Hallo ⟦ 0 ⟧', ['[name]'], 'token')).toEqual({text: 'Hallo [name]', missing: []});
+	});
+
+	it('should report the protected parts lost during translation', () => {
+		const masked = service.mask('{i}Hello{/i} [name]', 'token');
+
+		expect(service.unmask('⟦0⟧Bonjour⟦1⟧ ⟦7⟧', masked.placeholders, 'token'))
+			.toEqual({text: '{i}Bonjour{/i} ⟦7⟧', missing: ['[name]']});
+	});
+});
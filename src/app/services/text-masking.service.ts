@@ -0,0 +1,106 @@
+import {Injectable} from '@angular/core';
+import {MaskedText, PlaceholderStyle} from '../models/masked-text.model';
+import {RENPY_PROTECTED_TEXT_REGEX} from '../constants/renpy.constants';
+
+@Injectable({
+	providedIn: 'root'
+})
+export class TextMaskingService {
+
+	/**
+	 * Replace Ren'Py text tags, interpolations, formats and line breaks with placeholders
+	 * @param text The decoded text to protect
+	 * @param style 'xml' for APIs handling XML tags (DeepL), 'token' for plain text APIs (Google)
+	 * @returns The masked text and the protected parts
+	 */
+	mask(text: string, style: PlaceholderStyle): MaskedText {
+		const placeholders: string[] = [];
+		let masked = '';
+		let lastIndex = 0;
+
+		for (const match of text.matchAll(RENPY_PROTECTED_TEXT_REGEX)) {
+			masked += this.escapeText(text.slice(lastIndex, match.index), style);
+			lastIndex = match.index + match[0].length;
+
+			// Escaped brackets are plain text
+			if (match[0] === '{{' || match[0] === '[[') {
+				masked += this.escapeText(match[0], style);
+				continue;
+			}
+
+			masked += this.createPlaceholder(placeholders.length, style);
+			placeholders.push(match[0]);
+		}
+
+		masked += this.escapeText(text.slice(lastIndex), style);
+
+		return {text: masked, placeholders};
+	}
+
+	/**
+	 * Restore the protected parts of a translated text
+	 * @param translatedText The text returned by the translation API
+	 * @param placeholders The protected parts returned by mask()
+	 * @param style The placeholder style used to mask the text
+	 * @returns The restored text and the protected parts that went missing during translation
+	 */
+	unmask(translatedText: string, placeholders: string[], style: PlaceholderStyle): { text: string, missing: string[] } {
+		const restored = new Set<number>();
+		const pattern = style === 'xml' ? /<x\s+i\s*=\s*"(\d+)"\s*\/>/g : /⟦\s*(\d+)\s*⟧/g;
+
+		let text = translatedText.replace(pattern, (match: string, index: string) => {
+			const placeholder = placeholders[Number(index)];
+			if (placeholder === undefined) {
+				return match;
+			}
+			restored.add(Number(index));
+			return placeholder;
+		});
+
+		if (style === 'xml') {
+			text = this.unescapeXml(text);
+		}
+
+		return {
+			text,
+			missing: placeholders.filter((_, index) => !restored.has(index))
+		};
+	}
+
+	/**
+	 * Create the placeholder of a protected part
+	 * @param index Index of the protected part
+	 * @param style The placeholder style
+	 * @returns The placeholder
+	 */
+	private createPlaceholder(index: number, style: PlaceholderStyle): string {
+		return style === 'xml' ? `<x i="${index}"/>` : `⟦${index}⟧`;
+	}
+
+	/**
+	 * Escape the plain text parts of a masked text
+	 * @param text Plain text part
+	 * @param style The placeholder style
+	 * @returns The text, XML-escaped when the xml style is used
+	 */
+	private escapeText(text: string, style: PlaceholderStyle): string {
+		if (style !== 'xml') {
+			return text;
+		}
+		return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+	}
+
+	/**
+	 * Unescape XML entities returned by an API handling XML tags
+	 * @param text Translated text
+	 * @returns The text with entities replaced by their characters
+	 */
+	private unescapeXml(text: string): string {
+		return text
+			.replace(/&lt;/g, '<')
+			.replace(/&gt;/g, '>')
+			.replace(/&quot;/g, '"')
+			.replace(/&apos;/g, "'")
+			.replace(/&amp;/g, '&');
+	}
+}
@@ -1,33 +1,66 @@
-import {Injectable} from '@angular/core';
-import {HttpClient} from '@angular/common/http';
-import {Observable, of, throwError} from 'rxjs';
+import {Inject, Injectable} from '@angular/core';
+import {forkJoin, Observable, of, throwError} from 'rxjs';
 import {catchError, map} from 'rxjs/operators';
 import {LanguageLocalizationService} from './language-localization.service';
-import {GoogleTranslateService} from './google-translate.service';
-import {DeepLTranslationService} from './deepl-translation.service';
-import {SupportedLanguage} from '../models/supported-language.model';
+import {LanguageType, SupportedLanguage} from '../models/supported-language.model';
 import {ApiUsageResult} from '../models/api-usage-result.model';
 import {TranslationResult} from '../models/translation-result.model';
+import {MaskedText, PlaceholderStyle, PlaceholderWarning} from '../models/masked-text.model';
+import {TranslationProvider} from '../models/translation-provider.model';
+import {TranslationOptions} from '../models/translation-options.model';
+import {Formality} from '../models/formality.model';
+import {TextContext} from '../models/text-context.model';
+import {TranslatedText} from '../models/translated-text.model';
+import {SourceLanguageReport} from '../models/source-language-report.model';
+import {TRANSLATION_PROVIDERS} from '../providers/translation-providers.token';
+import {TextMaskingService} from './text-masking.service';
 
 @Injectable({
 	providedIn: 'root'
 })
 export class TranslationApiService {
 	constructor(
-		private readonly httpClient: HttpClient,
+		@Inject(TRANSLATION_PROVIDERS) private readonly providers: TranslationProvider[],
 		private readonly languageLocalizationService: LanguageLocalizationService,
-		private readonly googleTranslateService: GoogleTranslateService,
-		private readonly deepLTranslationService: DeepLTranslationService
+		private readonly textMaskingService: TextMaskingService
 	) {
 	}
 
+	/**
+	 * Get every registered translation provider
+	 * @returns The providers, in registration order
+	 */
+	getProviders(): TranslationProvider[] {
+		return this.providers;
+	}
+
+	/**
+	 * Get a translation provider by its identifier
+	 * @param apiType The identifier of the provider, e.g. 'deepl-free'
+	 * @returns The provider, undefined if none is registered with this identifier
+	 */
+	getProvider(apiType: string): TranslationProvider | undefined {
+		return this.providers.find(provider => provider.id === apiType);
+	}
+
+	/**
+	 * Check if a provider has the API key it needs
+	 * @param apiType The identifier of the provider
+	 * @param apiKey The API key
+	 * @returns True if the provider is registered and its key is set when required
+	 */
+	isConfigured(apiType: string, apiKey: string): boolean {
+		const provider = this.getProvider(apiType);
+		return !!provider && (provider.auth !== 'required' || !!apiKey);
+	}
+
 	/**
 	 * Fetch API usage information from the selected API
-	 * @param apiType The type of API to use ('deepl-free' or 'google-free')
-	 * @param apiKey The API key (required for DeepL)
-	 * @param previousCharacterCount Previous character count for comparison (for DeepL retry logic)
-	 * @param retryCount Current retry count (for DeepL retry logic)
-	 * @param maxRetryAttempts Maximum number of retry attempts (for DeepL retry logic)
+	 * @param apiType The identifier of the provider, e.g. 'deepl-free'
+	 * @param apiKey The API key (required by some providers)
+	 * @param previousCharacterCount Previous character count for comparison (for providers with delayed usage)
+	 * @param retryCount Current retry count (for providers with delayed usage)
+	 * @param maxRetryAttempts Maximum number of retry attempts (for providers with delayed usage)
 	 * @returns Observable of API usage information
 	 */
 	fetchApiUsage(
@@ -37,40 +70,8 @@ export class TranslationApiService {
 		retryCount: number = 0,
 		maxRetryAttempts: number = 5
 	): Observable<ApiUsageResult> {
-		if (apiType === 'deepl-free') {
-			if (!apiKey) {
-				return of({
-					character_count: 0,
-					character_limit: 0,
-					error: 'API key is required for DeepL',
-					shouldRetry: false
-				});
-			}
-
-			return this.deepLTranslationService.fetchApiUsageWithRetry(
-				apiKey,
-				previousCharacterCount,
-				retryCount,
-				maxRetryAttempts
-			).pipe(
-				map(result => {
-					return {
-						...result,
-						willExceedLimit: false,
-						willExceedFileLimit: false
-					};
-				})
-			);
-		} else if (apiType === 'google-free') {
-			return this.googleTranslateService.fetchApiUsageWithEnhancedInfo().pipe(
-				map(result => {
-					return {
-						...result,
-						shouldRetry: false
-					};
-				})
-			);
-		} else {
+		const provider = this.getProvider(apiType);
+		if (!provider) {
 			return of({
 				character_count: 0,
 				character_limit: 0,
@@ -78,11 +79,22 @@ export class TranslationApiService {
 				shouldRetry: false
 			});
 		}
+
+		if (provider.auth === 'required' && !apiKey) {
+			return of({
+				character_count: 0,
+				character_limit: 0,
+				error: `API key is required for ${provider.name}`,
+				shouldRetry: false
+			});
+		}
+
+		return provider.fetchUsage(apiKey, previousCharacterCount, retryCount, maxRetryAttempts);
 	}
 
 	/**
 	 * Check if a translation will exceed the API limit
-	 * @param apiType The type of API to use ('deepl-free' or 'google-free')
+	 * @param apiType The identifier of the provider, e.g. 'deepl-free'
 	 * @param currentCount Current character count
 	 * @param additionalCount Additional character count to add
 	 * @param characterLimit The character limit
@@ -94,215 +106,293 @@ export class TranslationApiService {
 		additionalCount: number,
 		characterLimit: number
 	): { willExceedLimit: boolean, willExceedFileLimit: boolean } {
-		if (apiType === 'deepl-free') {
-			const result = this.deepLTranslationService.checkWillExceedLimit(
-				currentCount,
-				additionalCount,
-				characterLimit
-			);
-			return {
-				willExceedLimit: result.willExceedLimit,
-				willExceedFileLimit: false // DeepL doesn't have a file character limit
-			};
-		} else if (apiType === 'google-free') {
-			return this.googleTranslateService.checkWillExceedLimits(
-				additionalCount,
-				characterLimit
-			);
-		} else {
-			return {
-				willExceedLimit: false,
-				willExceedFileLimit: false
-			};
-		}
+		return this.getProvider(apiType)?.checkWillExceedLimit(currentCount, additionalCount, characterLimit) ?? {
+			willExceedLimit: false,
+			willExceedFileLimit: false
+		};
 	}
 
 	/**
 	 * Calculate character count for an array of texts
-	 * @param apiType The type of API to use ('deepl-free' or 'google-free')
+	 * @param apiType The identifier of the provider, e.g. 'deepl-free'
 	 * @param texts Array of texts to count characters for
 	 * @returns Total character count
 	 */
 	calculateCharacterCount(apiType: string, texts: string[]): number {
-		if (apiType === 'deepl-free') {
-			return this.deepLTranslationService.calculateCharacterCount(texts);
-		} else if (apiType === 'google-free') {
-			return this.googleTranslateService.calculateCharacterCount(texts);
-		} else {
-			// Default to a simple character count
-			return texts.reduce((total, text) => total + text.length, 0);
+		const provider = this.getProvider(apiType);
+		if (provider) {
+			return provider.calculateCharacterCount(texts);
 		}
+
+		// Default to a simple character count
+		return texts.reduce((total, text) => total + text.length, 0);
+	}
+
+	/**
+	 * Estimate the price of translating a number of characters
+	 * @param apiType The identifier of the provider, e.g. 'deepl-pro'
+	 * @param characterCount Number of characters billed
+	 * @returns The price in the currency of the provider, 0 if the provider is not billed per character
+	 */
+	estimateCost(apiType: string, characterCount: number): number {
+		const pricing = this.getProvider(apiType)?.pricing;
+		return pricing ? characterCount * pricing.pricePerMillionCharacters / 1000000 : 0;
+	}
+
+	/**
+	 * Get the monthly character limit set by the user
+	 * @param apiType The identifier of the provider, e.g. 'google-cloud'
+	 * @returns Number of characters per month, 0 for no limit or a provider reporting its own quota
+	 */
+	getCharacterLimit(apiType: string): number {
+		return this.getProvider(apiType)?.getCharacterLimit?.() ?? 0;
+	}
+
+	/**
+	 * Set the monthly character limit of a provider with a billing limit
+	 * @param apiType The identifier of the provider, e.g. 'google-cloud'
+	 * @param limit Number of characters per month, 0 for no limit
+	 */
+	setCharacterLimit(apiType: string, limit: number): void {
+		this.getProvider(apiType)?.setCharacterLimit?.(limit);
+	}
+
+	/**
+	 * Get the URL of the server of a provider
+	 * @param apiType The identifier of the provider, e.g. 'libretranslate'
+	 * @returns The URL, empty for a provider on a fixed server
+	 */
+	getBaseUrl(apiType: string): string {
+		return this.getProvider(apiType)?.getBaseUrl?.() ?? '';
+	}
+
+	/**
+	 * Set the URL of the server of a provider on a server chosen by the user
+	 * @param apiType The identifier of the provider, e.g. 'libretranslate'
+	 * @param url The URL of the server
+	 */
+	setBaseUrl(apiType: string, url: string): void {
+		this.getProvider(apiType)?.setBaseUrl?.(url);
+	}
+
+	/**
+	 * Compute how many characters can still be translated, all the limits of the usage considered
+	 * @param usage The usage returned by fetchApiUsage
+	 * @returns The remaining character count
+	 */
+	getRemainingCharacters(usage: ApiUsageResult): number {
+		const monthlyRemaining = Math.max(0, (usage.character_limit || 0) - (usage.character_count || 0));
+		const weeklyRemaining = Math.max(0, (usage.weekly_limit || monthlyRemaining) - (usage.weekly_count || 0));
+		const dailyRemaining = Math.max(0, (usage.daily_limit || weeklyRemaining) - (usage.daily_count || 0));
+		return Math.min(monthlyRemaining, weeklyRemaining, dailyRemaining);
 	}
 
 	/**
 	 * Translate multiple texts using the selected API
-	 * @param apiType The type of API to use ('deepl-free' or 'google-free')
+	 * Ren'Py tags, interpolations and line breaks are masked before translation and restored afterwards
+	 * @param apiType The identifier of the provider, e.g. 'deepl-free'
 	 * @param texts Array of texts to translate
 	 * @param targetLang The target language code
-	 * @param apiKey The API key (required for DeepL)
-	 * @returns Observable of translated texts
+	 * @param apiKey The API key (required by some providers)
+	 * @param options Source language, glossary and other settings, ignored by the providers not supporting them
+	 * @param contexts Speaker and surrounding dialogue of each text, for the formality of each speaker and the context sent
+	 * @returns Observable of translated texts, with the source languages detected when no source language is given
 	 */
 	translateTexts(
 		apiType: string,
 		texts: string[],
 		targetLang: string,
-		apiKey: string = ''
+		apiKey: string = '',
+		options: TranslationOptions = {},
+		contexts: TextContext[] = []
 	): Observable<TranslationResult> {
 		if (!texts || texts.length === 0) {
 			return of({translatedTexts: []});
 		}
 
-		if (apiType === 'deepl-free') {
-			if (!apiKey) {
-				return of({
-					translatedTexts: [],
-					error: 'API key is required for DeepL'
-				});
-			}
-
-			return this.deepLTranslationService.translateMultiple(texts, apiKey, targetLang).pipe(
-				map(translatedTexts => ({translatedTexts})),
-				catchError(error => {
-					console.error('DeepL translation error:', error);
-					return of({
-						translatedTexts: [],
-						error: 'Error translating texts with DeepL'
-					});
-				})
-			);
-		} else if (apiType === 'google-free') {
-			return this.googleTranslateService.translateMultiple(texts, targetLang).pipe(
-				map(translatedTexts => ({translatedTexts})),
-				catchError(error => {
-					console.error('Google Translate error:', error);
-					return of({
-						translatedTexts: [],
-						error: 'Error translating texts with Google Translate'
-					});
-				})
-			);
-		} else {
+		const provider = this.getProvider(apiType);
+		if (!provider) {
 			return of({
 				translatedTexts: [],
 				error: `Unknown API type: ${apiType}`
 			});
 		}
-	}
 
-	/**
-	 * Fetch supported languages from DeepL API
-	 * @param apiKey The DeepL API key
-	 * @returns Observable of supported languages
-	 */
-	fetchDeeplSupportedLanguages(apiKey: string): Observable<SupportedLanguage[]> {
-		const apiType = 'DeepL Free API';
-		return this.fetchLanguagesFromApi(apiType, apiKey, () => {
-			// Use the local proxy to avoid CORS issues and to keep a single origin.
-			// Match the pattern used elsewhere in the app for DeepL endpoints.
-			const endpoint = `/deepl-api/v2/languages`;
-			const params = { params: { auth_key: apiKey, type: 'target' } } as const;
-
-			return this.httpClient.get<any[]>(endpoint, params)
-				.pipe(
-					map(response => {
-						// DeepL returns an array like: [{ language: 'EN', name: 'English' }, ...]
-						return response.map((lang: any) => {
-							const code = (lang.language || '').toString().toLowerCase();
-							const displayName = this.languageLocalizationService.getLanguageNameFromCode(code, lang.name);
-							return { code, name: displayName } as SupportedLanguage;
-						});
-					}),
-					catchError(error => {
-						console.error(`Error fetching DeepL languages via proxy ${endpoint}:`, error);
-						// Surface an empty list so the UI can continue to function gracefully
-						return of([] as SupportedLanguage[]);
-					})
-				);
-		});
+		if (provider.auth === 'required' && !apiKey) {
+			return of({
+				translatedTexts: [],
+				error: `API key is required for ${provider.name}`
+			});
+		}
+
+		const style = provider.capabilities.placeholderStyle;
+		const maskedTexts = this.maskTexts(texts, style);
+
+		// One request per formality, the translations put back in the order of the texts
+		const groups = this.groupByFormality(options, contexts, texts.length);
+		const requests = groups.map(group => provider.translateBatch(
+			group.indexes.map(index => maskedTexts[index].text),
+			targetLang,
+			apiKey,
+			{...options, formality: group.formality},
+			contexts.length === texts.length ? group.indexes.map(index => contexts[index]) : []
+		));
+
+		return forkJoin(requests).pipe(
+			map(results => {
+				const translations: TranslatedText[] = new Array(texts.length);
+				groups.forEach((group, i) => group.indexes.forEach((index, j) => translations[index] = results[i][j]));
+
+				const result = this.unmaskTexts(maskedTexts, translations.map(translation => translation.text), style);
+				// A given source language is reported back as detected
+				if (!options.sourceLang) {
+					result.sourceLanguageReport = this.getSourceLanguageReport(texts, translations.map(translation => translation.detectedSourceLanguage));
+				}
+				return result;
+			}),
+			catchError(error => {
+				console.error(`${provider.name} translation error:`, error);
+				return of({
+					translatedTexts: [],
+					error: `Error translating texts with ${provider.name}`
+				});
+			})
+		);
 	}
 
 	/**
-	 * Fetch supported languages from the undocumented Google Translate API
-	 * This API doesn't require an API key, and now uses the actual API to fetch languages
+	 * Fetch the languages of a provider, named in the page language
+	 * @param apiType The identifier of the provider, e.g. 'deepl-free'
+	 * @param apiKey The API key (required by some providers)
+	 * @param type Source or target languages
 	 * @returns Observable of supported languages
 	 */
-	fetchGoogleFreeLanguages(): Observable<SupportedLanguage[]> {
-		// Use the GoogleTranslateService to fetch the supported languages
-		return this.googleTranslateService.fetchSupportedLanguages().pipe(
-			map(languages => {
-				// Map the language objects to our internal format and translate them
-				return languages.map(lang => ({
-					code: lang.code.toLowerCase(),
-					name: this.languageLocalizationService.getLanguageNameFromCode(lang.code, lang.name)
-				}));
-			}),
+	fetchSupportedLanguages(apiType: string, apiKey: string = '', type: LanguageType = 'target'): Observable<SupportedLanguage[]> {
+		const provider = this.getProvider(apiType);
+		if (!provider) {
+			return throwError(() => new Error(`Unknown API type: ${apiType}`));
+		}
+
+		if (provider.auth === 'required' && !apiKey) {
+			return throwError(() => new Error('API key is required'));
+		}
+
+		return provider.fetchLanguages(apiKey, type).pipe(
+			map(languages => languages.map(lang => ({
+				code: lang.code.toLowerCase(),
+				name: this.languageLocalizationService.getLanguageNameFromCode(lang.code, lang.name),
+				supportsFormality: lang.supportsFormality
+			}))),
 			catchError(error => {
-				console.error('Error fetching languages from Google Translate API:', error);
-				// If there's an error, return an empty array
-				return of([]);
+				console.error(`Error fetching ${provider.name} supported languages:`, error);
+
+				// Check if the error is due to receiving HTML instead of JSON
+				if (error.error instanceof SyntaxError && error.error.message.includes('Unexpected token')) {
+					console.error('Received HTML instead of JSON. This might be a proxy configuration issue.');
+					console.error('Response text:', error.error.text);
+					return throwError(() => new Error(`Failed to fetch languages from ${provider.name}. Proxy configuration issue detected.`));
+				}
+
+				return throwError(() => new Error(`Failed to fetch languages from ${provider.name}`));
 			})
 		);
 	}
 
 	/**
 	 * Update usage information after translation
-	 * @param apiType The type of API to use ('deepl-free' or 'google-free')
+	 * @param apiType The identifier of the provider, e.g. 'deepl-free'
 	 * @returns Object with information about how to handle the update
 	 */
 	updateUsageAfterTranslation(apiType: string): {
 		needsCountdown: boolean,
 		message: string
 	} {
-		if (apiType === 'deepl-free') {
-			// Expected behavior: perform a single check immediately after translation (no countdown, no retries)
-			return {
-				needsCountdown: false,
-				message: 'USAGE_UPDATE_NOTICE'
-			};
-		} else if (apiType === 'google-free') {
-			// Google Translate can update usage immediately
-			return {
-				needsCountdown: false,
-				message: 'GOOGLE_USAGE_UPDATED'
-			};
-		} else {
-			// Default behavior
-			return {
-				needsCountdown: false,
-				message: 'TRANSLATION_COMPLETED'
-			};
+		// Expected behavior: perform a single check immediately after translation (no countdown)
+		return {
+			needsCountdown: false,
+			message: this.getProvider(apiType)?.labels.usageUpdated ?? 'TRANSLATION_COMPLETED'
+		};
+	}
+
+	/**
+	 * Group texts by the formality they are translated with
+	 * @param options Formality of the translation and of each speaker
+	 * @param contexts Speaker of each text
+	 * @param count Number of texts
+	 * @returns The indexes of the texts of each formality, a single group when no speaker has its own formality
+	 */
+	private groupByFormality(options: TranslationOptions, contexts: TextContext[], count: number): { formality?: Formality, indexes: number[] }[] {
+		const bySpeaker = new Map((options.speakerFormalities ?? []).map(setting => [setting.speaker, setting.formality]));
+		const groups = new Map<Formality | undefined, number[]>();
+
+		for (let index = 0; index < count; index++) {
+			const formality = bySpeaker.get(contexts[index]?.speaker ?? '') ?? options.formality;
+			const indexes = groups.get(formality) ?? [];
+			indexes.push(index);
+			groups.set(formality, indexes);
 		}
+
+		return [...groups].map(([formality, indexes]) => ({formality, indexes}));
 	}
 
 	/**
-	 * Generic method to fetch languages from any API
-	 * @param apiName The name of the API (for error messages)
-	 * @param apiKey The API key
-	 * @param fetchFn The function to fetch languages from the API
-	 * @returns Observable of supported languages
+	 * Count the source languages detected by the API and flag the lines not in the most detected one
+	 * @param texts Array of texts sent to the API
+	 * @param detectedLanguages Detected language of each text, undefined when not reported
+	 * @returns The report, undefined when the API reported no language
 	 */
-	private fetchLanguagesFromApi(
-		apiName: string,
-		apiKey: string,
-		fetchFn: () => Observable<SupportedLanguage[]>
-	): Observable<SupportedLanguage[]> {
-		if (!apiKey) {
-			return throwError(() => new Error('API key is required'));
+	private getSourceLanguageReport(texts: string[], detectedLanguages: (string | undefined)[]): SourceLanguageReport | undefined {
+		const counts = new Map<string, number>();
+		for (const language of detectedLanguages) {
+			if (language) {
+				counts.set(language, (counts.get(language) ?? 0) + 1);
+			}
 		}
 
-		return fetchFn().pipe(
-			catchError(error => {
-				console.error(`Error fetching ${apiName} supported languages:`, error);
+		if (!counts.size) {
+			return undefined;
+		}
 
-				// Check if the error is due to receiving HTML instead of JSON
-				if (error.error instanceof SyntaxError && error.error.message.includes('Unexpected token')) {
-					console.error('Received HTML instead of JSON. This might be a proxy configuration issue.');
-					console.error('Response text:', error.error.text);
-					return throwError(() => new Error(`Failed to fetch languages from ${apiName}. Proxy configuration issue detected.`));
-				}
+		const languages = [...counts].map(([language, count]) => ({language, count})).sort((a, b) => b.count - a.count);
+		const expectedLanguage = languages[0].language;
 
-				return throwError(() => new Error(`Failed to fetch languages from ${apiName}`));
-			})
+		// "en-gb" and "en" are the same language for the report
+		const baseLanguage = (language: string) => language.split('-')[0];
+		const outliers = detectedLanguages.flatMap((language, index) =>
+			language && baseLanguage(language) !== baseLanguage(expectedLanguage) ? [{sourceText: texts[index], language}] : []
 		);
+
+		return {expectedLanguage, languages, outliers};
+	}
+
+	/**
+	 * Protect the Ren'Py markup of the texts before sending them to an API
+	 * @param texts Array of texts to translate
+	 * @param style The placeholder style supported by the API
+	 * @returns Array of masked texts
+	 */
+	private maskTexts(texts: string[], style: PlaceholderStyle): MaskedText[] {
+		return texts.map(text => this.textMaskingService.mask(text, style));
+	}
+
+	/**
+	 * Restore the Ren'Py markup of translated texts and flag the ones that lost a placeholder
+	 * @param maskedTexts Array of masked texts sent to the API
+	 * @param translatedTexts Array of texts returned by the API
+	 * @param style The placeholder style used to mask the texts
+	 * @returns Translation result with placeholder warnings
+	 */
+	private unmaskTexts(maskedTexts: MaskedText[], translatedTexts: string[], style: PlaceholderStyle): TranslationResult {
+		const placeholderWarnings: PlaceholderWarning[] = [];
+
+		const restoredTexts = translatedTexts.map((translatedText, index) => {
+			const restored = this.textMaskingService.unmask(translatedText, maskedTexts[index]?.placeholders ?? [], style);
+			if (restored.missing.length) {
+				placeholderWarnings.push({index, missing: restored.missing});
+			}
+			return restored.text;
+		});
+
+		return {translatedTexts: restoredTexts, placeholderWarnings};
 	}
 }
@@ -0,0 +1,86 @@
+import {TestBed} from '@angular/core/testing';
+import {TranslationMigrationService} from './translation-migration.service';
+
+describe('TranslationMigrationService', () => {
+	let service: TranslationMigrationService;
+
+	const previousContent = [
+		'translate french start_a170b500:',
+		'    # e "The sun rises over the hills."',
+		'    e "Le soleil se lève sur les collines."',
+		'',
+		'translate french start_b2c3d4e5:',
+		'    # e "Hello."',
+		'    e "Bonjour."',
+		'',
+		'translate french strings:',
+		'    old "Start"',
+		'    new "Démarrer"',
+		''
+	].join('\n');
+
+	const newContent = [
+		'translate french start_c3d4e5f6:',
+		'    # e "The sun rises over the hill."',
+		'    e ""',
+		'',
+		'translate french start_b2c3d4e5:',
+		'    # e "Hello."',
+		'    e ""',
+		'',
+		'translate french strings:',
+		'    old "Start"',
+		'    new ""',
+		'',
+		'    old "Quit"',
+		'    new ""',
+		''
+	].join('\n');
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		service = TestBed.inject(TranslationMigrationService);
+	});
+
+	it('should match the previous translations by identifier, then by similar source text', () => {
+		const result = service.migrate(previousContent, newContent);
+
+		expect(result.matches.map(match => [match.kind, match.sourceText, match.translation])).toEqual([
+			['fuzzy', 'The sun rises over the hill.', 'Le soleil se lève sur les collines.'],
+			['id', 'Hello.', 'Bonjour.'],
+			['id', 'Start', 'Démarrer']
+		]);
+		expect(result.matches[0].previousSourceText).toEqual('The sun rises over the hills.');
+		expect(result.unmatchedCount).toEqual(1);
+		expect(result.errors).toEqual([]);
+	});
+
+	it('should report the line numbers of the new content, below the fuzzy notes', () => {
+		const result = service.migrate(previousContent, newContent);
+		const lines = result.content.split('\n');
+
+		expect(lines.slice(1, 4)).toEqual([
+			'    # e "The sun rises over the hill."',
+			jasmine.stringMatching(/^ {4}# fuzzy \d+%$/),
+			'    e "Le soleil se lève sur les collines."'
+		]);
+		expect(result.matches.map(match => lines[match.lineNumber - 1].trim())).toEqual([
+			'e "Le soleil se lève sur les collines."',
+			'e "Bonjour."',
+			'new "Démarrer"'
+		]);
+	});
+
+	it('should match an identical source text in another block', () => {
+		const moved = newContent.replace('start_b2c3d4e5', 'start_d4e5f6a7');
+
+		expect(service.migrate(previousContent, moved).matches[1]).toEqual(jasmine.objectContaining({kind: 'source', translation: 'Bonjour.'}));
+	});
+
+	it('should leave the units whose source text is not similar enough untranslated', () => {
+		const result = service.migrate(previousContent, newContent, 0.99);
+
+		expect(result.matches.map(match => match.kind)).toEqual(['id', 'id']);
+		expect(result.unmatchedCount).toEqual(2);
+	});
+});
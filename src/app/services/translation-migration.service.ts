@@ -0,0 +1,191 @@
+import {Injectable} from '@angular/core';
+import {MIGRATION_FUZZY_COMMENT, MIGRATION_SIMILARITY_THRESHOLD} from '../constants/renpy.constants';
+import {MigrationMatch, MigrationResult} from '../models/migration-result.model';
+import {TranslationUnit} from '../models/translation-unit.model';
+import {RenpyFileParserService} from './renpy-file-parser.service';
+import {TranslationProcessorService} from './translation-processor.service';
+
+interface PreviousText {
+	sourceText: string;
+	translation: string;
+	bigrams: Map<string, number>;
+}
+
+@Injectable({
+	providedIn: 'root'
+})
+export class TranslationMigrationService {
+	constructor(
+		private readonly renpyFileParserService: RenpyFileParserService,
+		private readonly translationProcessorService: TranslationProcessorService
+	) {
+	}
+
+	/**
+	 * Carry the translations of a previous translation file over to a freshly generated one
+	 * Units are matched by identifier first, then by identical source text, then by similar source text.
+	 * Fuzzy matches are written with a comment above them so that they can be reviewed
+	 * @param previousContent The previous translation file, already translated
+	 * @param newContent The translation file generated from the edited game script
+	 * @param threshold Minimum similarity of the source texts for a fuzzy match, from 0 to 1
+	 * @returns The new file with the carried over translations, how each written unit was matched,
+	 * and the errors preventing some translations from being written
+	 */
+	migrate(previousContent: string, newContent: string, threshold: number = MIGRATION_SIMILARITY_THRESHOLD): MigrationResult {
+		const previousUnits = this.renpyFileParserService.parseUnits(previousContent);
+		const allNewUnits = this.renpyFileParserService.parseUnits(newContent);
+
+		// Previous translations by identifier and by source text
+		const byId = new Map<string, TranslationUnit>();
+		const bySource = new Map<string, PreviousText>();
+		const previousKeys = this.getUnitKeys(previousUnits);
+		previousUnits.forEach((unit, i) => {
+			if (!unit.existingTranslation) {
+				return;
+			}
+			byId.set(previousKeys[i], unit);
+			if (!bySource.has(unit.sourceText)) {
+				bySource.set(unit.sourceText, {
+					sourceText: unit.sourceText,
+					translation: unit.existingTranslation,
+					bigrams: this.getBigrams(unit.sourceText)
+				});
+			}
+		});
+
+		// Identifiers are computed on every unit so that positions in the blocks are comparable
+		const newKeys = this.getUnitKeys(allNewUnits);
+		const newUnits = allNewUnits.filter(unit => !unit.existingTranslation);
+		const matchedUnits: TranslationUnit[] = [];
+		const matches: Omit<MigrationMatch, 'lineNumber'>[] = [];
+
+		allNewUnits.forEach((unit, i) => {
+			if (unit.existingTranslation) {
+				return;
+			}
+
+			const match = this.findMatch(unit, byId.get(newKeys[i]), bySource, threshold);
+			if (match) {
+				matchedUnits.push(unit);
+				matches.push(match);
+			}
+		});
+
+		const result = this.translationProcessorService.replaceLines(
+			newContent,
+			matchedUnits,
+			matches.map(match => match.translation),
+			matches.map(match => match.kind === 'fuzzy' ? `${MIGRATION_FUZZY_COMMENT} ${Math.round(match.similarity * 100)}%` : undefined)
+		);
+
+		// Only the written translations are reported, at their line in the new content (below the fuzzy notes)
+		const writtenMatches = matches
+			.map((match, i) => ({...match, lineNumber: result.lineNumbers[i]}))
+			.filter((match): match is MigrationMatch => match.lineNumber !== undefined);
+
+		return {
+			content: result.content,
+			matches: writtenMatches,
+			unmatchedCount: newUnits.length - writtenMatches.length,
+			errors: result.errors
+		};
+	}
+
+	/**
+	 * Find the previous translation of a unit
+	 * @param unit Unit of the new file
+	 * @param sameId Previous unit with the same identifier, if any
+	 * @param bySource Previous translations by source text
+	 * @param threshold Minimum similarity for a fuzzy match
+	 * @returns The match, or null if no previous translation is close enough
+	 */
+	private findMatch(unit: TranslationUnit, sameId: TranslationUnit | undefined, bySource: Map<string, PreviousText>, threshold: number): Omit<MigrationMatch, 'lineNumber'> | null {
+		if (sameId && sameId.sourceText === unit.sourceText) {
+			return {kind: 'id', similarity: 1, sourceText: unit.sourceText, previousSourceText: sameId.sourceText, translation: sameId.existingTranslation};
+		}
+
+		const identical = bySource.get(unit.sourceText);
+		if (identical) {
+			return {kind: 'source', similarity: 1, sourceText: unit.sourceText, previousSourceText: identical.sourceText, translation: identical.translation};
+		}
+
+		const bigrams = this.getBigrams(unit.sourceText);
+		let best: PreviousText | null = null;
+		let bestSimilarity = threshold;
+
+		for (const previous of bySource.values()) {
+			// The similarity cannot reach the threshold when the lengths are too different
+			const lengthRatio = Math.min(previous.sourceText.length, unit.sourceText.length) / Math.max(previous.sourceText.length, unit.sourceText.length, 1);
+			if (lengthRatio < bestSimilarity) {
+				continue;
+			}
+
+			const similarity = this.getSimilarity(bigrams, previous.bigrams);
+			if (similarity >= bestSimilarity) {
+				best = previous;
+				bestSimilarity = similarity;
+			}
+		}
+
+		if (!best) {
+			return null;
+		}
+
+		return {kind: 'fuzzy', similarity: bestSimilarity, sourceText: unit.sourceText, previousSourceText: best.sourceText, translation: best.translation};
+	}
+
+	/**
+	 * Build the identifier of each unit: the block identifier and the position in the block for dialogue,
+	 * the source text for strings
+	 * @param units Units of a file
+	 * @returns The identifier of each unit, in the same order
+	 */
+	private getUnitKeys(units: TranslationUnit[]): string[] {
+		const positions = new Map<string, number>();
+		return units.map(unit => {
+			if (unit.kind === 'strings') {
+				return `strings:${unit.sourceText}`;
+			}
+			const position = positions.get(unit.blockId) ?? 0;
+			positions.set(unit.blockId, position + 1);
+			return `${unit.blockId}:${position}`;
+		});
+	}
+
+	/**
+	 * Count the character pairs of a text, ignoring case and repeated whitespace
+	 * @param text Text to analyse
+	 * @returns Number of occurrences of each pair
+	 */
+	private getBigrams(text: string): Map<string, number> {
+		const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+		const bigrams = new Map<string, number>();
+		for (let i = 0; i < normalized.length - 1; i++) {
+			const bigram = normalized.slice(i, i + 2);
+			bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+		}
+		return bigrams;
+	}
+
+	/**
+	 * Compute the Sørensen–Dice coefficient of two texts from their character pairs
+	 * @param a Character pairs of the first text
+	 * @param b Character pairs of the second text
+	 * @returns The similarity, from 0 (nothing in common) to 1 (same pairs)
+	 */
+	private getSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+		let sizeA = 0;
+		let sizeB = 0;
+		let common = 0;
+
+		for (const [bigram, count] of a) {
+			sizeA += count;
+			common += Math.min(count, b.get(bigram) ?? 0);
+		}
+		for (const count of b.values()) {
+			sizeB += count;
+		}
+
+		return sizeA + sizeB ? (2 * common) / (sizeA + sizeB) : 0;
+	}
+}
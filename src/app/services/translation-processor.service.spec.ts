@@ -0,0 +1,123 @@
+import {TestBed} from '@angular/core/testing';
+import {RenpyFileParserService} from './renpy-file-parser.service';
+import {TranslationProcessorService} from './translation-processor.service';
+
+describe('TranslationProcessorService', () => {
+	let service: TranslationProcessorService;
+	let parser: RenpyFileParserService;
+
+	const content = [
+		'\uFEFF# game/script.rpy:10',
+		'translate french start_a170b500:',
+		'',
+		'\t# e "Hello, \\"world\\"."',
+		'\te ""',
+		'',
+		'translate french strings:',
+		'',
+		'\told "Start"',
+		'\tnew ""',
+		''
+	].join('\r\n');
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		service = TestBed.inject(TranslationProcessorService);
+		parser = TestBed.inject(RenpyFileParserService);
+	});
+
+	it('should keep the BOM, the line endings and the indentation of the file', () => {
+		const units = parser.getUnitsToTranslate(parser.parseUnits(content));
+		const filled = service.replaceLines(content, units, ['Bonjour, "monde".', 'Démarrer']);
+
+		expect(filled.errors).toEqual([]);
+		expect(filled.content).toEqual(content
+			.replace('\te ""', '\te "Bonjour, \\"monde\\"."')
+			.replace('\tnew ""', '\tnew "Démarrer"'));
+	});
+
+	it('should not shift the next units when a multi-line statement changes size', () => {
+		const file = [
+			'translate french start_a170b500:',
+			'    # e "First.\\nSecond."',
+			'    e """Premier.',
+			'',
+			'        Second."""',
+			'',
+			'translate french start_b2c3d4e5:',
+			'    # e "Bye."',
+			'    e ""',
+			''
+		].join('\n');
+		const units = parser.parseUnits(file);
+
+		expect(service.replaceLines(file, units, ['Un.\nDeux.\nTrois.', 'Au revoir.']).content.split('\n')).toEqual([
+			'translate french start_a170b500:',
+			'    # e "First.\\nSecond."',
+			'    e """Un.',
+			'',
+			'        Deux.',
+			'',
+			'        Trois."""',
+			'',
+			'translate french start_b2c3d4e5:',
+			'    # e "Bye."',
+			'    e "Au revoir."',
+			''
+		]);
+	});
+
+	it('should report the line numbers of the filled statements after the notes and the size changes', () => {
+		const file = [
+			'translate french start_a170b500:',
+			'    # e "First.\\nSecond."',
+			'    e """Premier.',
+			'',
+			'        Second."""',
+			'',
+			'translate french start_b2c3d4e5:',
+			'    # e "Bye."',
+			'    e ""',
+			''
+		].join('\n');
+		const result = service.replaceLines(file, parser.parseUnits(file), ['Un.\nDeux.\nTrois.', 'Au revoir.'], ['fuzzy 80%', 'fuzzy 90%']);
+		const lines = result.content.split('\n');
+
+		expect(lines[2]).toEqual('    # fuzzy 80%');
+		expect(result.lineNumbers).toEqual([4, 13]);
+		expect(result.lineNumbers.map(lineNumber => lines[lineNumber! - 1])).toEqual(['    e """Un.', '    e "Au revoir."']);
+	});
+
+	it('should keep the "with" clause of a statement', () => {
+		const file = 'translate french start_a170b500:\n    # e "Hi." with dissolve\n    e "" with dissolve\n';
+
+		expect(service.replaceLines(file, parser.parseUnits(file), ['Salut.']).content).toContain('    e "Salut." with dissolve\n');
+	});
+
+	it('should write nothing when the number of translations does not match the number of units', () => {
+		const units = parser.getUnitsToTranslate(parser.parseUnits(content));
+
+		expect(service.replaceLines(content, units, ['Bonjour.'])).toEqual({
+			content,
+			filledCount: 0,
+			lineNumbers: [undefined, undefined],
+			errors: [{reason: 'count-mismatch', expected: 2, actual: 1}]
+		});
+	});
+
+	it('should skip the units whose target line is claimed twice, missing or changed', () => {
+		const [dialogue, string] = parser.getUnitsToTranslate(parser.parseUnits(content));
+		const changed = content.replace('\tnew ""', '\tnew "Edited"');
+		const units = [dialogue, dialogue, {...string, targetLineIndex: 42}];
+
+		expect(service.replaceLines(changed, units, ['Un.', 'Deux.', 'Trois.'])).toEqual(jasmine.objectContaining({
+			filledCount: 1,
+			errors: [
+				{reason: 'duplicate-target', lineNumber: 5, blockId: 'start_a170b500'},
+				{reason: 'line-out-of-range', lineNumber: 43, blockId: 'strings'}
+			]
+		}));
+		expect(service.replaceLines(changed, [string], ['Démarrer']).errors)
+			.toEqual([{reason: 'line-changed', lineNumber: 10, blockId: 'strings'}]);
+	});
+});
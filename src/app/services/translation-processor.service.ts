@@ -1,426 +1,153 @@
 import {Injectable} from '@angular/core';
+import {ReplacementError, ReplacementResult} from '../models/replacement-result.model';
+import {TranslationUnit} from '../models/translation-unit.model';
+import {RenpyStringService} from './renpy-string.service';
 
 @Injectable({
 	providedIn: 'root'
 })
 export class TranslationProcessorService {
-
-	/**
-	 * Create filled lines with translations
-	 * @param linesToFill Array of lines to fill
-	 * @param translatedLines Array of translated lines
-	 * @returns Array of filled lines
-	 */
-	createFilledLines(linesToFill: string[], translatedLines: string[]): string[] {
-		const filledLines: string[] = [];
-
-		// Check if the arrays have different lengths
-		if (linesToFill.length !== translatedLines.length) {
-			console.warn(`Warning: Number of lines to fill (${linesToFill.length}) different from number of translated lines (${translatedLines.length})`);
-		}
-
-		// Make sure we have the same number of elements in both arrays
-		const minLength = Math.min(linesToFill.length, translatedLines.length);
-
-		for (let i = 0; i < minLength; i++) {
-			const lineToFill = linesToFill[i];
-			const translatedText = translatedLines[i];
-
-			// Extract the command from the line to fill
-			const commandMatch = /^([^"]+)/.exec(lineToFill);
-			const command = commandMatch ? commandMatch[1].trim() : '';
-
-			// Create the new line with the translation
-			// Works for both Type A (Dialogue block) and Type B (Strings block)
-			const filledLine = `${command} "${translatedText}"`;
-			filledLines.push(filledLine);
-		}
-
-		return filledLines;
+	constructor(private readonly renpyStringService: RenpyStringService) {
 	}
 
 	/**
-	 * Find the index of a filled line with a specific command
-	 * @param filledLines Array of filled lines
-	 * @param command Command to search for
-	 * @param startIndex Index to start searching from
-	 * @returns Index of the filled line or -1 if not found
-	 */
-	findFilledLineIndex(filledLines: (string | null)[], command: string, startIndex: number = 0): number {
-		for (let i = startIndex; i < filledLines.length; i++) {
-			// Ignore lines already used (marked as null)
-			if (filledLines[i] === null) {
-				continue;
-			}
-
-			// We know filledLines[i] is not null at this point
-			const filledLine = filledLines[i]!;
-			const filledLineCommand = filledLine.split('"')[0].trim();
-			if (filledLineCommand === command) {
-				return i;
-			}
-		}
-
-		// If we didn't find a line with the exact command, look for a line with "new" for Type B cases
-		if (command === "new") {
-			return -1; // Already looked for "new", not found
-		}
-
-		// If we didn't find a line with the exact command, take the first available line
-		for (let i = 0; i < filledLines.length; i++) {
-			if (filledLines[i] !== null) {
-				return i;
-			}
-		}
-
-		return -1; // Not found
-	}
-
-	/**
-	 * Replace empty lines in the file content with translated lines
+	 * Write translations onto the target lines of the translation units
+	 * Each translation goes to the exact target statement recorded at extraction time, never to another line:
+	 * when the counts disagree nothing is written, and units whose target is missing or changed are skipped
+	 * Untouched lines are kept byte for byte: the UTF-8 BOM, the line endings and the indentation of the file are preserved
 	 * @param fileContent The content of the file
-	 * @param filledLines Array of strings with translations to fill in the file
-	 * @param extractCommand Function to extract command from a line
-	 * @returns The new file content with translations
+	 * @param units Array of units to fill, in the same order as the translated lines
+	 * @param translatedLines Array of translated lines
+	 * @param notes Optional comments written above the target statements, in the same order as the units
+	 * @returns The new file content with translations, where each filled statement ended up, and the errors preventing
+	 * some translations from being written
 	 */
-	replaceLines(
-		fileContent: string,
-		filledLines: string[],
-		extractCommand: (line: string) => string
-	): string {
+	replaceLines(fileContent: string, units: TranslationUnit[], translatedLines: string[], notes: (string | undefined)[] = []): ReplacementResult {
 		if (!fileContent) {
-			return '';
-		}
-
-		const lines = fileContent.split('\n');
-		const outputLines: string[] = [];
-		let i = 0;
-
-		// Create a copy of the filled lines to mark them as used
-		const availableFilledLines: (string | null)[] = [...filledLines];
-
-		while (i < lines.length) {
-			const line = lines[i].trim();
-
-			// === TYPE A : Dialogue block ===
-			if (line.startsWith('# game/') && lines[i + 1]?.trim().startsWith('translate french')) {
-				i = this.processDialogueBlockForReplace(lines, i, outputLines, availableFilledLines, extractCommand);
-				continue;
-			}
-
-			// === TYPE B : Strings block ===
-			else if (line.startsWith('translate french strings:')) {
-				i = this.processStringsBlockForReplace(lines, i, outputLines, availableFilledLines);
-				continue;
-			}
-
-			// Other lines - copy them as they are
-			outputLines.push(lines[i]);
-			i++;
-		}
-
-		return outputLines.join('\n');
-	}
-
-	/**
-	 * Generate a translation file from content
-	 * @param content The content of the file
-	 * @returns A Blob object with the file content
-	 */
-	generateTranslationFile(content: string): Blob {
-		return new Blob([content], {type: 'text/plain'});
-	}
-
-	/**
-	 * Process a dialogue block (Type A) for replacement
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param outputLines Array to store output lines
-	 * @param availableFilledLines Array of available filled lines
-	 * @param extractCommand Function to extract command from a line
-	 * @returns New line index after processing the block
-	 */
-	private processDialogueBlockForReplace(
-		lines: string[],
-		i: number,
-		outputLines: string[],
-		availableFilledLines: (string | null)[],
-		extractCommand: (line: string) => string
-	): number {
-		// Add the header lines of the block
-		outputLines.push(
-			lines[i],        // # game/...
-			lines[i + 1],    // translate french...
-			lines[i + 2] || '' // empty line
-		);
-
-
-		const comment1 = lines[i + 3]?.trim();
-		const comment2 = lines[i + 4]?.trim();
-
-		// Special case: two commented lines (with # and nvl clear or other command)
-		if (comment1?.startsWith('#') && comment2?.startsWith('#')) {
-			return this.processTwoCommentedLinesForReplace(lines, i, outputLines, availableFilledLines, extractCommand);
+			return {content: '', filledCount: 0, lineNumbers: [], errors: []};
 		}
 
-		// Classic case: a single commented line
-		else if (comment1?.startsWith('#')) {
-			return this.processSingleCommentedLineForReplace(lines, i, outputLines, availableFilledLines, extractCommand);
+		// Pairing by position is only reliable when there is exactly one translation per unit
+		if (units.length !== translatedLines.length) {
+			return {
+				content: fileContent,
+				filledCount: 0,
+				lineNumbers: units.map(() => undefined),
+				errors: [{reason: 'count-mismatch', expected: units.length, actual: translatedLines.length}]
+			};
 		}
 
-		// Unrecognized format: copy the lines as they are
-		if (lines[i + 3]) outputLines.push(lines[i + 3]);
-		if (lines[i + 4]) outputLines.push(lines[i + 4]);
-		return i + 5;  // Move to the next block
-	}
-
-	/**
-	 * Process a special case with two commented lines in a dialogue block for replacement
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param outputLines Array to store output lines
-	 * @param availableFilledLines Array of available filled lines
-	 * @param extractCommand Function to extract command from a line
-	 * @returns New line index after processing the block
-	 */
-	private processTwoCommentedLinesForReplace(
-		lines: string[],
-		i: number,
-		outputLines: string[],
-		availableFilledLines: (string | null)[],
-		extractCommand: (line: string) => string
-	): number {
-		// Add the commented lines as they are
-		outputLines.push(
-			lines[i + 3], // First commented line
-			lines[i + 4]  // Second commented line (contains the text to translate)
-		);
-
-		// Check if there's a line to fill after the comments
-		if (i + 5 < lines.length) {
-			// Check if the first line after the comments is a command without quotes (like "nvl clear")
-			const firstLineAfterComments = lines[i + 5].trim();
-
-			// If the first line after the comments doesn't contain quotes, it's a command like "nvl clear"
-			if (firstLineAfterComments.includes('"')) {
-				return this.handleStandardCaseForReplace(lines, i, outputLines, availableFilledLines, firstLineAfterComments, i + 5, extractCommand);
+		// Lines keep their "\r" so that Windows line endings survive the round trip
+		const lines = fileContent.split('\n');
+		const errors: ReplacementError[] = [];
+		const targets = new Set<number>();
+		const pairs: { index: number, unit: TranslationUnit, translatedLine: string, note?: string, lineCount: number }[] = [];
+
+		units.forEach((unit, i) => {
+			const error = this.checkTarget(lines, unit, targets);
+			if (error) {
+				errors.push(error);
 			} else {
-				return this.handleCommandWithoutQuotesForReplace(lines, i, outputLines, availableFilledLines, extractCommand);
+				targets.add(unit.targetLineIndex);
+				pairs.push({index: i, unit, translatedLine: translatedLines[i], note: notes[i], lineCount: 0});
 			}
-		} else {
-			// If no line to fill, add an empty line
-			outputLines.push('');
-			return i + 6; // Move beyond the block
-		}
-	}
-
-	/**
-	 * Handle the case when the first line after comments doesn't contain quotes (like "nvl clear") for replacement
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param outputLines Array to store output lines
-	 * @param availableFilledLines Array of available filled lines
-	 * @param extractCommand Function to extract command from a line
-	 * @returns New line index after processing the block
-	 */
-	private handleCommandWithoutQuotesForReplace(
-		lines: string[],
-		i: number,
-		outputLines: string[],
-		availableFilledLines: (string | null)[],
-		extractCommand: (line: string) => string
-	): number {
-		// Add the first line as is (command without quotes)
-		outputLines.push(lines[i + 5]);
-
-		// Check if there's a second line to fill
-		if (i + 6 < lines.length) {
-			const secondLineAfterComments = lines[i + 6].trim();
-			// Check if the second line contains empty quotes (to fill)
-			if (secondLineAfterComments.includes('""')) {
-				this.fillLineWithTranslation(lines, i + 6, outputLines, availableFilledLines, extractCommand);
-			} else {
-				// If the line already has a translation, keep it as is
-				outputLines.push(lines[i + 6]);
+		});
+
+		// Fill from the bottom so that multi-line statements changing size do not shift the next units
+		pairs.sort((a, b) => b.unit.targetLineIndex - a.unit.targetLineIndex);
+
+		for (const pair of pairs) {
+			const {unit, translatedLine, note} = pair;
+			const statementLines = lines.slice(unit.targetLineIndex, unit.targetLineIndex + unit.targetLineCount);
+			const carriageReturn = statementLines.at(-1)!.endsWith('\r') ? '\r' : '';
+			const statement = statementLines.map(line => line.replace(/\r$/, '')).join('\n');
+			const filled = this.createFilledLine(statement, unit, translatedLine).split('\n');
+			if (note) {
+				filled.unshift(`${unit.indentation}# ${note}`);
 			}
-		} else {
-			// If no second line to fill, add an empty line
-			outputLines.push('');
+			lines.splice(unit.targetLineIndex, unit.targetLineCount, ...filled.map(line => line + carriageReturn));
+			pair.lineCount = filled.length;
 		}
 
-		return i + 7; // Move beyond the block (2 commented lines + 2 lines to fill)
-	}
-
-	/**
-	 * Handle the standard case when the line contains quotes for replacement
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param outputLines Array to store output lines
-	 * @param availableFilledLines Array of available filled lines
-	 * @param lineToCheck The line to check for empty quotes
-	 * @param lineIndex The index of the line to check
-	 * @param extractCommand Function to extract command from a line
-	 * @returns New line index after processing the block
-	 */
-	private handleStandardCaseForReplace(
-		lines: string[],
-		i: number,
-		outputLines: string[],
-		availableFilledLines: (string | null)[],
-		lineToCheck: string,
-		lineIndex: number,
-		extractCommand: (line: string) => string
-	): number {
-		// Check if the line contains empty quotes (to fill)
-		if (lineToCheck.includes('""')) {
-			this.fillLineWithTranslation(lines, lineIndex, outputLines, availableFilledLines, extractCommand);
-		} else {
-			// If the line already has a translation, keep it as is
-			outputLines.push(lines[lineIndex]);
+		// Every filled statement changing size, or getting a note, shifts the statements below it
+		const lineNumbers: (number | undefined)[] = units.map(() => undefined);
+		let shift = 0;
+		for (const {index, unit, note, lineCount} of pairs.reverse()) {
+			lineNumbers[index] = unit.targetLineIndex + shift + (note ? 2 : 1);
+			shift += lineCount - unit.targetLineCount;
 		}
 
-		return i + 6; // Move beyond the block (2 commented lines + 1 line to fill)
+		return {content: lines.join('\n'), filledCount: pairs.length, lineNumbers, errors};
 	}
 
 	/**
-	 * Process a classic case with a single commented line in a dialogue block for replacement
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param outputLines Array to store output lines
-	 * @param availableFilledLines Array of available filled lines
-	 * @param extractCommand Function to extract command from a line
-	 * @returns New line index after processing the block
+	 * Create the filled line of a unit with its translation
+	 * Works for both Type A (Dialogue block) and Type B (Strings block)
+	 * @param line The current target statement, its physical lines joined with "\n", without line endings
+	 * @param unit The unit to fill
+	 * @param translatedText The translated text, decoded
+	 * @returns The filled statement, with the translation escaped as a Ren'Py string literal
 	 */
-	private processSingleCommentedLineForReplace(
-		lines: string[],
-		i: number,
-		outputLines: string[],
-		availableFilledLines: (string | null)[],
-		extractCommand: (line: string) => string
-	): number {
-		// Add the commented line as is
-		outputLines.push(lines[i + 3]); // commented line
-
-		// Check if there's a line to fill after the comment
-		if (i + 4 < lines.length) {
-			const lineToFill = lines[i + 4].trim(); // The line to fill
+	createFilledLine(line: string, unit: TranslationUnit, translatedText: string): string {
+		const literal = unit.tripleQuoted
+			? `"""${this.renpyStringService.encodeTripleQuoted(translatedText, this.getContinuationIndentation(line, unit))}"""`
+			: `"${this.renpyStringService.encode(translatedText)}"`;
+		const statement = this.renpyStringService.parseStatement(line);
 
-			// Check if the line contains empty quotes (to fill)
-			if (lineToFill.includes('""')) {
-				this.fillLineWithTranslation(lines, i + 4, outputLines, availableFilledLines, extractCommand);
-			} else {
-				// If the line already has a translation, keep it as is
-				outputLines.push(lines[i + 4]);
-			}
-		} else {
-			// If no line to fill, add an empty line
-			outputLines.push('');
+		// Keep everything around the literal (indentation, command, "with" clause...)
+		if (statement) {
+			return line.slice(0, statement.literal.start) + literal + line.slice(statement.literal.end);
 		}
 
-		return i + 5;  // Move to the next block
+		const command = unit.command ? `${unit.command} ` : '';
+		return `${unit.indentation}${command}${literal}`;
 	}
 
 	/**
-	 * Fill a line with translation if available
-	 * @param lines Array of all lines in the file
-	 * @param lineIndex Index of the line to fill
-	 * @param outputLines Array to store output lines
-	 * @param availableFilledLines Array of available filled lines
-	 * @param extractCommand Function to extract command from a line
+	 * Check that the target statement of a unit is still the one read at extraction time
+	 * @param lines Lines of the file
+	 * @param unit The unit to fill
+	 * @param targets Target line indexes already claimed by other units
+	 * @returns The error preventing the unit from being filled, or null
 	 */
-	private fillLineWithTranslation(
-		lines: string[],
-		lineIndex: number,
-		outputLines: string[],
-		availableFilledLines: (string | null)[],
-		extractCommand: (line: string) => string
-	): void {
-		// Extract the command from the line to fill
-		const commandToFill = extractCommand(lines[lineIndex]);
-
-		// Look for a filled line with the same command
-		const matchingIndex = this.findFilledLineIndex(availableFilledLines, commandToFill, 0);
+	private checkTarget(lines: string[], unit: TranslationUnit, targets: Set<number>): ReplacementError | null {
+		const location = {lineNumber: unit.targetLineIndex + 1, blockId: unit.blockId};
 
-		if (matchingIndex === -1) {
-			// If no corresponding filled line, keep the original line
-			outputLines.push(lines[lineIndex]);
-		} else {
-			// Use the found filled line
-			const filledLine = availableFilledLines[matchingIndex]!;
-			outputLines.push(`    ${filledLine}`);
+		if (targets.has(unit.targetLineIndex)) {
+			return {reason: 'duplicate-target', ...location};
+		}
+		if (unit.targetLineIndex + unit.targetLineCount > lines.length) {
+			return {reason: 'line-out-of-range', ...location};
+		}
 
-			// Mark the line as used by replacing it with null
-			availableFilledLines[matchingIndex] = null;
+		const statement = lines.slice(unit.targetLineIndex, unit.targetLineIndex + unit.targetLineCount).join('\n').trim();
+		if (this.renpyStringService.parseStatement(statement)?.text !== unit.existingTranslation) {
+			return {reason: 'line-changed', ...location};
 		}
+
+		return null;
 	}
 
 	/**
-	 * Process a strings block (Type B) for replacement
-	 * @param lines Array of all lines in the file
-	 * @param i Current line index
-	 * @param outputLines Array to store output lines
-	 * @param availableFilledLines Array of available filled lines
-	 * @returns New line index after processing the block
+	 * Get the indentation of the continuation lines of a triple-quoted string
+	 * @param line The current target statement, its physical lines joined with "\n"
+	 * @param unit The unit to fill
+	 * @returns The indentation of the existing continuation lines, or one more level than the statement
 	 */
-	private processStringsBlockForReplace(
-		lines: string[],
-		i: number,
-		outputLines: string[],
-		availableFilledLines: (string | null)[]
-	): number {
-		outputLines.push(lines[i]);
-		i++;
-
-		while (i < lines.length && (lines[i].trim().startsWith('old "') || lines[i].trim() === '')) {
-			outputLines.push(lines[i]); // Keep the old line as is
-			i++;
-
-			if (i < lines.length) {
-				const nextLine = lines[i]?.trim();
-
-				// Check if it's an empty "new" line
-				if (nextLine && nextLine.startsWith('new "') && (nextLine === 'new ""' || nextLine.endsWith('""'))) {
-					this.fillNewLineWithTranslation(lines, i, outputLines, availableFilledLines);
-				} else {
-					// If the line already has a translation, keep it as is
-					outputLines.push(lines[i] || '');
-				}
-			}
-
-			i++;
+	private getContinuationIndentation(line: string, unit: TranslationUnit): string {
+		const continuation = line.split('\n').slice(1).find(physicalLine => physicalLine.trim());
+		if (continuation) {
+			return /^\s*/.exec(continuation)![0];
 		}
-		return i;
+		return unit.indentation + (unit.indentation.includes('\t') ? '\t' : '    ');
 	}
 
 	/**
-	 * Fill a "new" line with translation if available
-	 * @param lines Array of all lines in the file
-	 * @param lineIndex Index of the line to fill
-	 * @param outputLines Array to store output lines
-	 * @param availableFilledLines Array of available filled lines
+	 * Generate a translation file from content
+	 * @param content The content of the file
+	 * @returns A Blob object with the file content
 	 */
-	private fillNewLineWithTranslation(
-		lines: string[],
-		lineIndex: number,
-		outputLines: string[],
-		availableFilledLines: (string | null)[]
-	): void {
-		// For "new" lines, we just extract "new" as the command
-		const commandToFill = "new";
-
-		// Look for a filled line with the same command
-		const matchingIndex = this.findFilledLineIndex(availableFilledLines, commandToFill, 0);
-
-		if (matchingIndex === -1) {
-			// If no corresponding filled line, keep the original line
-			outputLines.push(lines[lineIndex]);
-		} else {
-			// Use the found filled line
-			const filledLine = availableFilledLines[matchingIndex]!;
-			outputLines.push(`    ${filledLine}`);
-
-			// Mark the line as used by replacing it with null
-			availableFilledLines[matchingIndex] = null;
-		}
+	generateTranslationFile(content: string): Blob {
+		return new Blob([content], {type: 'text/plain'});
 	}
 }
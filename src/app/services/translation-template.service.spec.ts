@@ -0,0 +1,30 @@
+import {TestBed} from '@angular/core/testing';
+import {TranslationTemplateService} from './translation-template.service';
+
+describe('TranslationTemplateService', () => {
+	let service: TranslationTemplateService;
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		service = TestBed.inject(TranslationTemplateService);
+	});
+
+	it('should write the template of a game script to the tl folder of the game', () => {
+		expect(service.getTemplatePath('game/script.rpy', 'french')).toEqual('game/tl/french/script.rpy');
+		expect(service.getTemplatePath('MyGame/game/chapters/day1.rpy', 'french')).toEqual('MyGame/game/tl/french/chapters/day1.rpy');
+	});
+
+	it('should keep the folders of a script outside a game folder', () => {
+		expect(service.getTemplatePath('script.rpy', 'german')).toEqual('tl/german/script.rpy');
+		expect(service.getTemplatePath('scripts\\day1.rpy', 'german')).toEqual('tl/german/scripts/day1.rpy');
+	});
+
+	it('should never give a converted script its own path', () => {
+		const script = 'label start:\n    e "Hello."\n';
+		const [template] = service.generateTemplates([{path: 'game/script.rpy', content: script}], 'french');
+
+		expect(service.isSourceScript(script)).toBeTrue();
+		expect(service.getTemplatePath(template.path, 'french')).not.toEqual('game/script.rpy');
+		expect(template.content).toContain('# game/script.rpy:2');
+	});
+});
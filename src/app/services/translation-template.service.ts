@@ -0,0 +1,285 @@
+import {Injectable} from '@angular/core';
+import {
+	RENPY_LABEL_REGEX,
+	RENPY_SAY_BLOCKS,
+	RENPY_SAY_ID_REGEX,
+	RENPY_STRING_CALL_REGEX,
+	RENPY_TRANSLATABLE_STATEMENTS
+} from '../constants/renpy.constants';
+import {LANGUAGE_MAP} from '../constants/language.constants';
+import {RenpyLine} from '../models/renpy-line.model';
+import {TemplateSource, TranslationTemplate} from '../models/translation-template.model';
+import {Md5Service} from './md5.service';
+import {RenpyFileParserService} from './renpy-file-parser.service';
+import {RenpyStringService} from './renpy-string.service';
+
+interface DialogueEntry {
+	identifier: string;
+	// Line number of the first statement in the source script (1-based)
+	lineNumber: number;
+	// Code of the statements, as written in the commented part of the block
+	sourceCodes: string[];
+	// Statements of the block with an empty text
+	targetCodes: string[];
+}
+
+interface StringEntry {
+	lineNumber: number;
+	text: string;
+}
+
+interface OpenBlock {
+	indentation: number;
+	keyword: string;
+}
+
+@Injectable({
+	providedIn: 'root'
+})
+export class TranslationTemplateService {
+	constructor(
+		private readonly md5Service: Md5Service,
+		private readonly renpyFileParserService: RenpyFileParserService,
+		private readonly renpyStringService: RenpyStringService
+	) {
+	}
+
+	/**
+	 * Check if a file is a game script rather than a translation file
+	 * @param fileContent The content of the file
+	 * @returns True if the file has no translate block but has dialogue or translatable strings
+	 */
+	isSourceScript(fileContent: string): boolean {
+		if (!fileContent || this.renpyFileParserService.detectLanguages(fileContent).length) {
+			return false;
+		}
+
+		const template = this.generateTemplates([{path: '', content: fileContent}], 'template')[0];
+		return template.dialogueCount + template.stringCount > 0;
+	}
+
+	/**
+	 * Get the Ren'Py language identifier matching a translation API language code
+	 * @param languageCode Target language code, e.g. "fr" or "PT-BR"
+	 * @returns Ren'Py language identifier, e.g. "french"
+	 */
+	getRenpyLanguage(languageCode: string): string {
+		const code = languageCode.toLowerCase();
+		const name = LANGUAGE_MAP[code] ?? LANGUAGE_MAP[code.split('-')[0]];
+		return (name ?? code).toLowerCase().replace(/\W/g, '_');
+	}
+
+	/**
+	 * Get the path of the translation file of a game script, where the Ren'Py SDK writes it
+	 * The template must never take the path of its script, which it would overwrite
+	 * @param path Path of the script, e.g. "MyGame/game/script.rpy"
+	 * @param language Ren'Py language identifier, e.g. "french"
+	 * @returns The path in the "tl/<language>" folder of the game, e.g. "MyGame/game/tl/french/script.rpy"
+	 */
+	getTemplatePath(path: string, language: string): string {
+		const normalized = path.replace(/\\/g, '/');
+		const gamePath = this.getGamePath(normalized);
+		return `${normalized.slice(0, normalized.length - gamePath.length)}tl/${language}/${gamePath}`;
+	}
+
+	/**
+	 * Generate the translation templates of game scripts, as the Ren'Py SDK does in "tl/<language>"
+	 * Identifiers are unique across all the scripts and a string is only emitted by the first script using it
+	 * @param sources Game scripts to generate templates for
+	 * @param language Ren'Py language identifier of the templates, e.g. "french"
+	 * @returns One template per script, in the same order
+	 */
+	generateTemplates(sources: TemplateSource[], language: string): TranslationTemplate[] {
+		const identifiers = new Set<string>();
+		const strings = new Set<string>();
+
+		return sources.map(source => {
+			const dialogues: DialogueEntry[] = [];
+			const stringEntries: StringEntry[] = [];
+			this.collectEntries(source.content, identifiers, dialogues, stringEntries);
+
+			const newStrings = stringEntries.filter(entry => {
+				if (strings.has(entry.text)) {
+					return false;
+				}
+				strings.add(entry.text);
+				return true;
+			});
+
+			// The template follows the byte order mark and the line endings of its script
+			const bom = source.content.startsWith('\uFEFF') ? '\uFEFF' : '';
+			const lineEnding = source.content.includes('\r\n') ? '\r\n' : '\n';
+			const lines = this.writeTemplate(this.getGamePath(source.path), language, dialogues, newStrings);
+
+			return {
+				path: source.path,
+				content: bom + lines.join(lineEnding),
+				dialogueCount: dialogues.length,
+				stringCount: newStrings.length
+			};
+		});
+	}
+
+	/**
+	 * Collect the dialogue blocks and the translatable strings of a game script
+	 * @param content The content of the script
+	 * @param identifiers Identifiers already used, updated with the new ones
+	 * @param dialogues Array to store the dialogue blocks
+	 * @param strings Array to store the strings
+	 */
+	private collectEntries(content: string, identifiers: Set<string>, dialogues: DialogueEntry[], strings: StringEntry[]): void {
+		const blocks: OpenBlock[] = [];
+		let label: string | null = null;
+		let globalLabel = '';
+		let pending: RenpyLine[] = [];
+
+		for (const line of this.renpyFileParserService.splitLogicalLines(content)) {
+			const statement = line.text.trim();
+			if (!statement || statement.startsWith('#')) {
+				continue;
+			}
+
+			// Close the blocks this line is not part of
+			const indentation = line.text.length - line.text.trimStart().length;
+			while (blocks.length && blocks.at(-1)!.indentation >= indentation) {
+				blocks.pop();
+			}
+
+			const labelName = RENPY_LABEL_REGEX.exec(statement)?.[1];
+			if (labelName) {
+				label = labelName.startsWith('.') ? globalLabel + labelName : labelName;
+				globalLabel = label.split('.')[0];
+			}
+
+			this.collectStringCalls(line, strings);
+
+			const inDialogue = blocks.some(block => block.keyword === 'label') &&
+				blocks.every(block => RENPY_SAY_BLOCKS.includes(block.keyword));
+
+			if (statement.endsWith(':')) {
+				const literal = this.renpyStringService.findStringLiterals(statement)[0];
+
+				// Menu choices are translated through the strings block
+				if (literal?.start === 0 && blocks.at(-1)?.keyword === 'menu') {
+					strings.push({lineNumber: line.index + 1, text: literal.value});
+					blocks.push({indentation, keyword: 'if'});
+				} else {
+					blocks.push({indentation, keyword: statement.split(/[\s:(]/)[0]});
+				}
+				pending = [];
+				continue;
+			}
+
+			if (!inDialogue) {
+				continue;
+			}
+
+			if (RENPY_TRANSLATABLE_STATEMENTS.some(keyword => statement === keyword || statement.startsWith(`${keyword} `))) {
+				pending.push(line);
+			} else if (this.renpyFileParserService.isDialogueStatement(statement)) {
+				dialogues.push(this.createDialogueEntry([...pending, line], label, identifiers));
+				pending = [];
+			} else {
+				pending = [];
+			}
+		}
+	}
+
+	/**
+	 * Collect the strings passed to the _() and __() functions
+	 * @param line Logical line of the script
+	 * @param strings Array to store the strings
+	 */
+	private collectStringCalls(line: RenpyLine, strings: StringEntry[]): void {
+		const text = line.text.trim();
+		for (const literal of this.renpyStringService.findStringLiterals(text)) {
+			if (literal.value && RENPY_STRING_CALL_REGEX.test(text.slice(0, literal.start))) {
+				strings.push({lineNumber: line.index + 1, text: literal.value});
+			}
+		}
+	}
+
+	/**
+	 * Create the dialogue block of a say statement and the statements translated with it
+	 * @param lines Logical lines of the statements, the say statement last
+	 * @param label Label the statements belong to, null before the first label
+	 * @param identifiers Identifiers already used, updated with the new one
+	 * @returns The dialogue block
+	 */
+	private createDialogueEntry(lines: RenpyLine[], label: string | null, identifiers: Set<string>): DialogueEntry {
+		const sourceCodes = lines.slice(0, -1).map(line => line.text.trim());
+		const targetCodes = [...sourceCodes];
+
+		const say = lines.at(-1)!.text.trim();
+		const statement = this.renpyStringService.parseStatement(say)!;
+		let clauses = say.slice(statement.literal.end).replace(/\s+/g, ' ').trim();
+		const explicitId = RENPY_SAY_ID_REGEX.exec(clauses)?.[1];
+		clauses = clauses.replace(RENPY_SAY_ID_REGEX, '').trim();
+
+		sourceCodes.push([statement.command, `"${this.renpyStringService.encode(statement.text)}"`, clauses].filter(Boolean).join(' '));
+		targetCodes.push([statement.command, '""', clauses].filter(Boolean).join(' '));
+
+		// Ren'Py hashes the code of every statement of the block, each followed by "\r\n"
+		const digest = this.md5Service.hash(sourceCodes.map(code => `${code}\r\n`).join('')).slice(0, 8);
+		const identifier = explicitId ?? this.createUniqueIdentifier(label ? `${label.replace(/\./g, '_')}_${digest}` : digest, identifiers);
+		identifiers.add(identifier);
+
+		return {identifier, lineNumber: lines[0].index + 1, sourceCodes, targetCodes};
+	}
+
+	/**
+	 * Add a numeric suffix to an identifier already in use, as Ren'Py does
+	 * @param base Identifier built from the label and the digest
+	 * @param identifiers Identifiers already used
+	 * @returns The unique identifier
+	 */
+	private createUniqueIdentifier(base: string, identifiers: Set<string>): string {
+		let identifier = base;
+		for (let i = 1; identifiers.has(identifier); i++) {
+			identifier = `${base}_${i}`;
+		}
+		return identifier;
+	}
+
+	/**
+	 * Write the translation template of a script
+	 * @param gamePath Path of the script inside the game folder
+	 * @param language Ren'Py language identifier
+	 * @param dialogues Dialogue blocks of the script
+	 * @param strings Strings first used by the script
+	 * @returns The lines of the template
+	 */
+	private writeTemplate(gamePath: string, language: string, dialogues: DialogueEntry[], strings: StringEntry[]): string[] {
+		const lines: string[] = [];
+
+		for (const dialogue of dialogues) {
+			lines.push(`# game/${gamePath}:${dialogue.lineNumber}`, `translate ${language} ${dialogue.identifier}:`, '');
+			lines.push(...dialogue.sourceCodes.map(code => `    # ${code}`));
+			lines.push(...dialogue.targetCodes.map(code => `    ${code}`), '');
+		}
+
+		if (strings.length) {
+			lines.push(`translate ${language} strings:`, '');
+			for (const entry of strings) {
+				lines.push(`    # game/${gamePath}:${entry.lineNumber}`);
+				lines.push(`    old "${this.renpyStringService.encode(entry.text)}"`, '    new ""', '');
+			}
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Get the path of a script relative to the game folder
+	 * @param path Path of the script, e.g. "MyGame/game/script.rpy"
+	 * @returns The path inside the game folder, e.g. "script.rpy"
+	 */
+	private getGamePath(path: string): string {
+		const normalized = path.replace(/\\/g, '/');
+		const gameIndex = normalized.lastIndexOf('game/');
+		if (gameIndex === 0 || normalized[gameIndex - 1] === '/') {
+			return normalized.slice(gameIndex + 'game/'.length);
+		}
+		return normalized;
+	}
+}
@@ -0,0 +1,46 @@
+import {TestBed} from '@angular/core/testing';
+import {RenpyFileParserService} from './renpy-file-parser.service';
+import {TranslationValidatorService} from './translation-validator.service';
+
+describe('TranslationValidatorService', () => {
+	let service: TranslationValidatorService;
+	let parser: RenpyFileParserService;
+
+	// An existing translation lost its interpolation, the second line is translated by this run
+	const original = [
+		'translate french start_1:',
+		'    # e "Hello [name]."',
+		'    e "Bonjour."',
+		'',
+		'translate french start_2:',
+		'    # e "Goodbye [name]."',
+		'    e ""',
+		''
+	].join('\n');
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		service = TestBed.inject(TranslationValidatorService);
+		parser = TestBed.inject(RenpyFileParserService);
+	});
+
+	it('should block the download on an error of a line written by this run', () => {
+		const written = parser.parseUnits(original).filter(unit => !unit.existingTranslation);
+		const translated = original.replace('e ""', 'e "Au revoir."');
+
+		const issues = service.validate(original, translated, written);
+
+		expect(issues.filter(issue => issue.severity === 'error').map(issue => issue.lineNumber)).toEqual([7]);
+		expect(service.hasErrors(issues)).toBeTrue();
+	});
+
+	it('should only warn about the translations that were already in the file', () => {
+		const written = parser.parseUnits(original).filter(unit => !unit.existingTranslation);
+		const translated = original.replace('e ""', 'e "Au revoir [name]."');
+
+		const issues = service.validate(original, translated, written);
+
+		expect(issues.map(issue => [issue.severity, issue.lineNumber])).toEqual([['warning', 3]]);
+		expect(service.hasErrors(issues)).toBeFalse();
+	});
+});
@@ -0,0 +1,232 @@
+import {Injectable} from '@angular/core';
+import {RENPY_PROTECTED_TEXT_REGEX, RENPY_SELF_CLOSING_TAGS, RENPY_STRAY_PERCENT_REGEX} from '../constants/renpy.constants';
+import {TranslationUnit} from '../models/translation-unit.model';
+import {ValidationIssue, ValidationIssueReason, ValidationSeverity} from '../models/validation-issue.model';
+import {RenpyFileParserService} from './renpy-file-parser.service';
+import {RenpyStringService} from './renpy-string.service';
+
+interface ProtectedParts {
+	tags: string[];
+	interpolations: string[];
+	formats: string[];
+}
+
+@Injectable({
+	providedIn: 'root'
+})
+export class TranslationValidatorService {
+	constructor(
+		private readonly renpyFileParserService: RenpyFileParserService,
+		private readonly renpyStringService: RenpyStringService
+	) {
+	}
+
+	/**
+	 * Check that a translated file is still valid Ren'Py, comparing each unit with the file it was written into
+	 * @param originalContent The translation file before the translations were written
+	 * @param translatedContent The translation file returned by replaceLines
+	 * @param writtenUnits Units whose translation was written by replaceLines, parsed from the original file
+	 * @returns The errors and warnings, file-wide issues first, then by line number; the issues of the translations
+	 * that were already in the file are only warnings, so that they never block the download
+	 */
+	validate(originalContent: string, translatedContent: string, writtenUnits: TranslationUnit[]): ValidationIssue[] {
+		const original = this.renpyFileParserService.parse(originalContent);
+		const translated = this.renpyFileParserService.parse(translatedContent);
+		const issues: ValidationIssue[] = [];
+
+		if (original.units.length !== translated.units.length) {
+			issues.push(this.createIssue('error', 'unit-count-changed', `${original.units.length} → ${translated.units.length}`));
+			return issues;
+		}
+
+		// Only multi-line strings may change the number of lines of the file
+		const originalLines = originalContent.split(/\r?\n/);
+		const translatedLines = translatedContent.split(/\r?\n/);
+		const expectedLineCount = originalLines.length + translated.units.reduce(
+			(sum, unit, i) => sum + unit.targetLineCount - original.units[i].targetLineCount, 0
+		);
+		if (translatedLines.length !== expectedLineCount) {
+			issues.push(this.createIssue('error', 'line-count-changed', `${expectedLineCount} → ${translatedLines.length}`));
+		}
+
+		// Statements the parser no longer understands
+		const knownDiagnostics = new Set(original.diagnostics.map(diagnostic => `${diagnostic.reason}:${diagnostic.line}`));
+		for (const diagnostic of translated.diagnostics) {
+			if (!knownDiagnostics.has(`${diagnostic.reason}:${diagnostic.line}`)) {
+				issues.push(this.createIssue('error', 'invalid-statement', diagnostic.line, diagnostic.lineNumber));
+			}
+		}
+
+		const writtenLines = new Set(writtenUnits.map(unit => unit.targetLineIndex));
+		translated.units.forEach((unit, i) => {
+			if (!unit.existingTranslation) {
+				return;
+			}
+
+			const unitIssues = this.validateUnit(original.units[i], unit, originalLines, translatedLines);
+			issues.push(...(writtenLines.has(original.units[i].targetLineIndex)
+				? unitIssues
+				: unitIssues.map(issue => ({...issue, severity: 'warning' as const}))));
+		});
+
+		return issues.sort((a, b) => (a.lineNumber ?? 0) - (b.lineNumber ?? 0));
+	}
+
+	/**
+	 * Check if issues contain an error that must block the download
+	 * @param issues The validation issues
+	 * @returns True if at least one issue is an error
+	 */
+	hasErrors(issues: ValidationIssue[]): boolean {
+		return issues.some(issue => issue.severity === 'error');
+	}
+
+	/**
+	 * Compare a translated unit with its source text and with the statement it was written into
+	 * @param originalUnit The unit before translation
+	 * @param translatedUnit The same unit in the translated file
+	 * @param originalLines Physical lines of the original file
+	 * @param translatedLines Physical lines of the translated file
+	 * @returns The issues of the unit
+	 */
+	private validateUnit(originalUnit: TranslationUnit, translatedUnit: TranslationUnit, originalLines: string[], translatedLines: string[]): ValidationIssue[] {
+		const issues: ValidationIssue[] = [];
+		const lineNumber = translatedUnit.targetLineIndex + 1;
+
+		// A quote left unescaped splits the text into several literals
+		const originalStatement = this.getStatement(originalLines, originalUnit);
+		const translatedStatement = this.getStatement(translatedLines, translatedUnit);
+		if (this.renpyStringService.hasUnterminatedLiteral(translatedStatement) ||
+			this.renpyStringService.findStringLiterals(translatedStatement).length > this.renpyStringService.findStringLiterals(originalStatement).length) {
+			issues.push(this.createIssue('error', 'unescaped-quote', translatedStatement, lineNumber));
+			return issues;
+		}
+
+		const literal = this.renpyStringService.parseStatement(translatedStatement)?.literal;
+		if (literal) {
+			const body = translatedStatement.slice(literal.start + literal.quote.length, literal.end - literal.quote.length);
+			if (RENPY_STRAY_PERCENT_REGEX.test(body.replace(/%%/g, ''))) {
+				issues.push(this.createIssue('error', 'stray-percent', translatedStatement, lineNumber));
+			}
+		}
+
+		const source = this.getProtectedParts(translatedUnit.sourceText);
+		const translation = this.getProtectedParts(translatedUnit.existingTranslation);
+
+		for (const tag of this.findUnbalancedTags(translation.tags)) {
+			issues.push(this.createIssue('error', 'unbalanced-tag', tag, lineNumber));
+		}
+		for (const tag of this.subtract(source.tags, translation.tags)) {
+			issues.push(this.createIssue('warning', 'missing-tag', tag, lineNumber));
+		}
+
+		// Ren'Py raises an error on an unknown variable, and the line loses meaning without a known one
+		for (const interpolation of this.subtract(source.interpolations, translation.interpolations)) {
+			issues.push(this.createIssue('error', 'missing-interpolation', interpolation, lineNumber));
+		}
+		for (const interpolation of this.subtract(translation.interpolations, source.interpolations)) {
+			issues.push(this.createIssue('error', 'unknown-interpolation', interpolation, lineNumber));
+		}
+
+		const missingFormats = this.subtract(source.formats, translation.formats);
+		const unknownFormats = this.subtract(translation.formats, source.formats);
+		for (const format of [...missingFormats, ...unknownFormats]) {
+			issues.push(this.createIssue('error', 'format-mismatch', format, lineNumber));
+		}
+
+		return issues;
+	}
+
+	/**
+	 * Get the target statement of a unit, joining its physical lines
+	 * @param lines Physical lines of the file
+	 * @param unit The unit
+	 * @returns The trimmed statement
+	 */
+	private getStatement(lines: string[], unit: TranslationUnit): string {
+		return lines.slice(unit.targetLineIndex, unit.targetLineIndex + unit.targetLineCount).join('\n').trim();
+	}
+
+	/**
+	 * Collect the text tags, interpolations and formats of a text, escaped brackets excluded
+	 * @param text The decoded text
+	 * @returns The protected parts, by kind
+	 */
+	private getProtectedParts(text: string): ProtectedParts {
+		const parts: ProtectedParts = {tags: [], interpolations: [], formats: []};
+		for (const [part] of text.matchAll(RENPY_PROTECTED_TEXT_REGEX)) {
+			if (part === '{{' || part === '[[' || part === '\n') {
+				continue;
+			}
+			if (part.startsWith('{')) {
+				parts.tags.push(part);
+			} else if (part.startsWith('[')) {
+				parts.interpolations.push(part);
+			} else {
+				parts.formats.push(part);
+			}
+		}
+		return parts;
+	}
+
+	/**
+	 * Find the text tags that are closed without being opened, or opened without being closed
+	 * @param tags Text tags of a text, in order
+	 * @returns The unbalanced tags
+	 */
+	private findUnbalancedTags(tags: string[]): string[] {
+		const open: { name: string, tag: string }[] = [];
+		const unbalanced: string[] = [];
+
+		for (const tag of tags) {
+			const closing = tag.startsWith('{/');
+			const name = tag.slice(closing ? 2 : 1, -1).split('=')[0];
+
+			if (!closing) {
+				if (!RENPY_SELF_CLOSING_TAGS.includes(name) && !name.startsWith('#')) {
+					open.push({name, tag});
+				}
+				continue;
+			}
+
+			const index = open.map(entry => entry.name).lastIndexOf(name);
+			if (index === -1) {
+				unbalanced.push(tag);
+			} else {
+				open.splice(index, 1);
+			}
+		}
+
+		return [...unbalanced, ...open.map(entry => entry.tag)];
+	}
+
+	/**
+	 * Remove from a list every element of another list, each occurrence once
+	 * @param items The list to filter
+	 * @param removed The elements to remove
+	 * @returns The remaining elements
+	 */
+	private subtract(items: string[], removed: string[]): string[] {
+		const remaining = [...removed];
+		return items.filter(item => {
+			const index = remaining.indexOf(item);
+			if (index === -1) {
+				return true;
+			}
+			remaining.splice(index, 1);
+			return false;
+		});
+	}
+
+	/**
+	 * Create a validation issue
+	 * @param severity 'error' if the issue breaks the game, 'warning' otherwise
+	 * @param reason Reason of the issue
+	 * @param detail Offending tag, interpolation or statement, or "<expected> → <actual>" for count changes
+	 * @param lineNumber Line number in the translated file (1-based), undefined for issues of the whole file
+	 * @returns The issue
+	 */
+	private createIssue(severity: ValidationSeverity, reason: ValidationIssueReason, detail: string, lineNumber?: number): ValidationIssue {
+		return {severity, reason, lineNumber, detail};
+	}
+}